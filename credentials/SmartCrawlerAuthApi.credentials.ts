@@ -0,0 +1,95 @@
+import type { Icon, ICredentialType, INodeProperties } from 'n8n-workflow';
+
+/**
+ * Smart Crawler 访问认证：Cookie、Bearer/API Key 请求头、HTTP Basic 认证
+ * 同时作用于静态请求（axios）和浏览器模式（puppeteer）
+ */
+export class SmartCrawlerAuthApi implements ICredentialType {
+	name = 'smartCrawlerAuthApi';
+
+	displayName = 'Smart Crawler Auth API';
+
+	icon: Icon = { light: 'file:../icons/smart-crawler.svg', dark: 'file:../icons/smart-crawler.dark.svg' };
+
+	documentationUrl = 'https://github.com/MaskerPRC/n8n-nodes-smart-crawler#认证';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Cookie',
+			name: 'cookie',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			placeholder: 'session_id=xxx; user_id=yyy',
+			description: '请求时携带的 Cookie',
+		},
+		{
+			displayName: '认证方式',
+			name: 'authType',
+			type: 'options',
+			options: [
+				{ name: '无', value: 'none' },
+				{ name: 'Bearer Token', value: 'bearer' },
+				{ name: 'API Key 请求头', value: 'apiKey' },
+				{ name: 'HTTP Basic 认证', value: 'basic' },
+			],
+			default: 'none',
+		},
+		{
+			displayName: 'Token',
+			name: 'token',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: '以 "Authorization: Bearer <token>" 发送',
+			displayOptions: {
+				show: { authType: ['bearer'] },
+			},
+		},
+		{
+			displayName: '请求头名称',
+			name: 'headerName',
+			type: 'string',
+			default: 'X-API-Key',
+			displayOptions: {
+				show: { authType: ['apiKey'] },
+			},
+		},
+		{
+			displayName: 'API Key',
+			name: 'apiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			displayOptions: {
+				show: { authType: ['apiKey'] },
+			},
+		},
+		{
+			displayName: '用户名',
+			name: 'username',
+			type: 'string',
+			default: '',
+			displayOptions: {
+				show: { authType: ['basic'] },
+			},
+		},
+		{
+			displayName: '密码',
+			name: 'password',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			displayOptions: {
+				show: { authType: ['basic'] },
+			},
+		},
+		{
+			displayName: '其他请求头',
+			name: 'headers',
+			type: 'json',
+			default: '{}',
+			description: '额外携带的认证请求头，JSON 对象格式，如 {"X-Token": "xxx"}',
+		},
+	];
+}
@@ -0,0 +1,42 @@
+import type { Icon, ICredentialType, INodeProperties } from 'n8n-workflow';
+
+/**
+ * Smart Crawler 代理：HTTP/HTTPS/SOCKS 代理地址和代理认证
+ * 配置多个代理时静态请求依次轮换
+ */
+export class SmartCrawlerProxyApi implements ICredentialType {
+	name = 'smartCrawlerProxyApi';
+
+	displayName = 'Smart Crawler Proxy API';
+
+	icon: Icon = { light: 'file:../icons/smart-crawler.svg', dark: 'file:../icons/smart-crawler.dark.svg' };
+
+	documentationUrl = 'https://github.com/MaskerPRC/n8n-nodes-smart-crawler#代理';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: '代理地址',
+			name: 'proxyUrl',
+			type: 'string',
+			typeOptions: { rows: 3 },
+			default: '',
+			required: true,
+			placeholder: 'http://127.0.0.1:8080',
+			description: '支持 http://、https://、socks5://、socks4://，多个代理每行一个，按请求轮换',
+		},
+		{
+			displayName: '用户名',
+			name: 'username',
+			type: 'string',
+			default: '',
+			description: '代理认证用户名，代理地址中已包含认证信息时忽略',
+		},
+		{
+			displayName: '密码',
+			name: 'password',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+		},
+	];
+}
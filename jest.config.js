@@ -5,6 +5,14 @@ module.exports = {
 	roots: ['<rootDir>/nodes'],
 	testMatch: ['**/*.test.ts'],
 	moduleFileExtensions: ['ts', 'js', 'json'],
+	// jsdom（XPath 选择器）依赖的部分包只提供 ES 模块，需要转换为 CommonJS
+	transform: {
+		'^.+\\.ts$': 'ts-jest',
+		'^.+\\.m?js$': ['ts-jest', { tsconfig: { allowJs: true } }],
+	},
+	transformIgnorePatterns: [
+		'/node_modules/(?!(jsdom/node_modules/)?(@asamuzakjp|@csstools|@exodus|css-tree|entities|parse5)/)',
+	],
 	collectCoverageFrom: ['nodes/**/*.ts', '!nodes/**/*.test.ts'],
 	coverageDirectory: 'coverage',
 	verbose: true,
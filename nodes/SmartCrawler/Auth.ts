@@ -0,0 +1,89 @@
+/**
+ * Auth - 访问认证（Cookie、认证请求头、HTTP Basic）
+ * 统一作用于 axios 请求和 puppeteer 页面
+ */
+import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+import type { Page } from 'puppeteer';
+
+export interface CrawlerAuth {
+	cookie?: string;                  // "a=1; b=2" 形式的 Cookie
+	headers?: Record<string, string>; // Authorization、API Key 等请求头
+	basicAuth?: { username: string; password: string };
+}
+
+/**
+ * 把 Smart Crawler Auth 凭证转换为 CrawlerAuth
+ * @param fallbackCookie 节点上的 Cookie 参数，凭证未配置 Cookie 时使用
+ */
+export function credentialsToAuth(
+	credentials: ICredentialDataDecryptedObject | undefined,
+	fallbackCookie = '',
+): CrawlerAuth {
+	if (!credentials) return { cookie: fallbackCookie };
+
+	const headers: Record<string, string> = {};
+	const extra = credentials.headers;
+	const extraHeaders = typeof extra === 'string' ? JSON.parse(extra || '{}') : extra;
+	if (extraHeaders && typeof extraHeaders === 'object') {
+		for (const [key, value] of Object.entries(extraHeaders)) {
+			headers[key] = String(value);
+		}
+	}
+
+	const auth: CrawlerAuth = { cookie: (credentials.cookie as string) || fallbackCookie, headers };
+
+	switch (credentials.authType) {
+		case 'bearer':
+			headers.Authorization = `Bearer ${credentials.token as string}`;
+			break;
+		case 'apiKey':
+			headers[(credentials.headerName as string) || 'X-API-Key'] = credentials.apiKey as string;
+			break;
+		case 'basic':
+			auth.basicAuth = {
+				username: credentials.username as string,
+				password: credentials.password as string,
+			};
+			break;
+	}
+
+	return auth;
+}
+
+/**
+ * axios 请求需要的认证相关配置
+ */
+export function getAxiosAuth(auth: CrawlerAuth) {
+	return {
+		headers: { ...auth.headers, ...(auth.cookie && { Cookie: auth.cookie }) },
+		...(auth.basicAuth && { auth: auth.basicAuth }),
+	};
+}
+
+// 页面池中的页面会被复用，记录每个页面当前生效的 page.authenticate 凭据
+const appliedPageAuth = new WeakMap<Page, string>();
+
+/**
+ * 给 puppeteer 页面设置 HTTP Basic 认证（Cookie 由 BrowserSession 注入），返回认证请求头
+ * 认证请求头由调用方通过请求拦截只附加到目标网站的请求上，不发送给第三方 CDN、统计等域名
+ * @param proxyAuth 代理认证，page.authenticate 只能设置一组凭据，此时网站的 Basic 认证改为请求头发送
+ */
+export async function applyAuthToPage(
+	page: Page,
+	auth: CrawlerAuth,
+	proxyAuth?: { username: string; password: string },
+): Promise<Record<string, string>> {
+	const headers = { ...auth.headers };
+	if (proxyAuth && auth.basicAuth) {
+		const { username, password } = auth.basicAuth;
+		headers.Authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+	}
+
+	const credentials = proxyAuth ?? auth.basicAuth ?? null;
+	const key = JSON.stringify(credentials);
+	if ((appliedPageAuth.get(page) ?? 'null') !== key) {
+		appliedPageAuth.set(page, key);
+		await page.authenticate(credentials);
+	}
+	return headers;
+}
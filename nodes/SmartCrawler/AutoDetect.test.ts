@@ -0,0 +1,65 @@
+import * as cheerio from 'cheerio';
+
+import { detectLists } from './AutoDetect';
+
+const PAGE_URL = 'https://shop.example.com/list';
+
+const card = (id: number, extra = '') => `
+	<div class="card item-${id}${extra}">
+		<a href="/p/${id}"><img data-src="/img/${id}.jpg" src="data:image/gif;base64,R0lG"></a>
+		<h3 class="card-title"><a href="/p/${id}">商品 ${id} 号</a></h3>
+		<span class="price">¥${id}99.00</span>
+		<p class="desc">这是商品 ${id} 的一段比较长的描述文字，用于识别摘要字段</p>
+	</div>`;
+
+describe('AutoDetect', () => {
+	it('应把商品卡片识别为最佳列表并推荐常见字段', () => {
+		const $ = cheerio.load(`<html><body>
+			<nav><ul><li><a href="/">首页</a></li><li><a href="/a">分类</a></li><li><a href="/b">关于</a></li></ul></nav>
+			<div class="main"><div class="grid">${card(1)}${card(2, ' active')}${card(3)}${card(4)}</div></div>
+			<footer><a href="/x">帮助</a><a href="/y">联系</a><a href="/z">隐私</a></footer>
+		</body></html>`);
+
+		const [best, ...rest] = detectLists($, PAGE_URL);
+
+		expect(best.listSelector).toBe('div.grid > div.card');
+		expect($(best.listSelector)).toHaveLength(4);
+		expect(best.itemCount).toBe(4);
+		expect(best.fields).toEqual([
+			{ name: 'title', selector: 'h3.card-title', type: 'text' },
+			{ name: 'link', selector: 'a', type: 'attribute', attribute: 'href', transforms: [{ type: 'absoluteUrl' }] },
+			{ name: 'image', selector: 'img', type: 'attribute', attribute: 'data-src', transforms: [{ type: 'absoluteUrl' }] },
+			{ name: 'price', selector: 'span.price', type: 'text' },
+			{ name: 'description', selector: 'p.desc', type: 'text' },
+		]);
+		expect(best.preview).toEqual({
+			title: '商品 1 号',
+			link: 'https://shop.example.com/p/1',
+			image: 'https://shop.example.com/img/1.jpg',
+			price: '¥199.00',
+			description: '这是商品 1 的一段比较长的描述文字，用于识别摘要字段',
+		});
+		expect(rest.every((s) => s.score < best.score)).toBe(true);
+	});
+
+	it('应识别日期并为无类名的重复父元素生成唯一选择器', () => {
+		const $ = cheerio.load(`<html><body>
+			<ul><li>不相关</li><li>也不相关</li></ul>
+			<ul>
+				<li><a href="/n/1">第一条新闻标题</a><span>2024-05-01</span></li>
+				<li><a href="/n/2">第二条新闻标题</a><span>2024-05-02</span></li>
+				<li><a href="/n/3">第三条新闻标题</a><span>2024-05-03</span></li>
+			</ul>
+		</body></html>`);
+
+		const [best] = detectLists($, PAGE_URL);
+
+		expect(best.listSelector).toBe('ul:nth-of-type(2) > li');
+		expect(best.fields.map((f) => f.name)).toEqual(['title', 'link', 'date']);
+		expect(best.preview).toMatchObject({ title: '第一条新闻标题', date: '2024-05-01' });
+	});
+
+	it('没有重复结构时返回空数组', () => {
+		expect(detectLists(cheerio.load('<html><body><h1>标题</h1><p>正文</p></body></html>'), PAGE_URL)).toEqual([]);
+	});
+});
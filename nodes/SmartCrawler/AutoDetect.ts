@@ -0,0 +1,267 @@
+/**
+ * AutoDetect - 自动识别列表结构并推荐列表选择器和字段
+ * 在页面中查找重复的兄弟元素，按数量、内容丰富度打分，再从列表项中推断常见字段
+ */
+import type { AnyNode, Element } from 'domhandler';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { FieldConfig } from './CrawlerEngine';
+import { applyTransforms } from './Transforms';
+
+export interface ListSuggestion {
+	listSelector: string;
+	itemCount: number;
+	score: number;
+	fields: FieldConfig[];                 // 推荐字段，可直接用作高级字段配置
+	preview: Record<string, unknown>;      // 第一个列表项按推荐字段提取的值
+}
+
+const MIN_ITEMS = 3;
+const SAMPLE_SIZE = 10;
+const IGNORED_TAGS = new Set([
+	'br', 'hr', 'script', 'style', 'noscript', 'template', 'meta', 'link', 'input', 'option', 'source', 'path', 'g',
+]);
+/** 导航、页眉页脚等非数据区域 */
+const CHROME_PATTERN = /nav|menu|header|footer|breadcrumb|pagination|pager|sidebar|toolbar|tabs/i;
+/** 状态类名和自动生成的类名不适合作为选择器 */
+const UNSTABLE_CLASS = /^(active|selected|current|hover|focus|first|last|odd|even|open|show|hidden)$|\d{3,}|^(css|sc|jsx|svelte)-/;
+
+const DATE_PATTERN = /\b\d{4}[-/.年]\d{1,2}[-/.月]\d{1,2}日?|\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]* \d{1,2},? \d{4}|\d+\s*(分钟|小时|天)前/;
+const PRICE_PATTERN = /[¥￥$€£]\s?\d|\d(\.\d+)?\s?(元|RMB|USD)/;
+
+function isElement(node: AnyNode): node is Element {
+	return 'attribs' in node;
+}
+
+function childElements(node: AnyNode): Element[] {
+	return 'children' in node ? node.children.filter(isElement) : [];
+}
+
+function stableClass(el: Element): string | undefined {
+	return (el.attribs.class ?? '')
+		.split(/\s+/)
+		.find((c) => /^[A-Za-z_][\w-]*$/.test(c) && !UNSTABLE_CLASS.test(c));
+}
+
+/**
+ * 元素的选择器片段：标签名加第一个稳定的类名
+ */
+function segment(el: Element): string {
+	const cls = stableClass(el);
+	return cls ? `${el.name}.${cls}` : el.name;
+}
+
+/**
+ * 页面中唯一匹配该元素的最短选择器（从元素向上拼接，遇到唯一 id 或唯一匹配时停止）
+ */
+function uniqueSelector($: CheerioAPI, el: Element): string {
+	const parts: string[] = [];
+	for (let node: Element | null = el; node; node = node.parent && isElement(node.parent) ? node.parent : null) {
+		const id = node.attribs.id;
+		if (id && /^[A-Za-z][\w-]*$/.test(id) && $(`#${id}`).length === 1) {
+			parts.unshift(`#${id}`);
+			break;
+		}
+		if (node.name === 'body' || node.name === 'html') {
+			parts.unshift(node.name);
+			break;
+		}
+
+		let part = segment(node);
+		const sameTag = childElements(node.parent!).filter((c) => c.name === node!.name);
+		if (sameTag.length > 1 && $(node.parent!).children(part).length > 1) {
+			part += `:nth-of-type(${sameTag.indexOf(node) + 1})`;
+		}
+		parts.unshift(part);
+		if ($(parts.join(' > ')).length === 1) break;
+	}
+	return parts.join(' > ');
+}
+
+/**
+ * 列表项内定位 target 的相对选择器，无法唯一定位到第一个匹配时返回 null
+ */
+function relativeSelector(item: Cheerio<Element>, target: Element): string | null {
+	const short = segment(target);
+	if (item.find(short).first()[0] === target) return short;
+
+	const parts: string[] = [];
+	for (let node: Element | null = target; node && node !== item[0]; node = node.parent as Element | null) {
+		parts.unshift(segment(node));
+	}
+	const path = parts.join(' > ');
+	return item.find(path).first()[0] === target ? path : null;
+}
+
+function ownText($: CheerioAPI, el: Element): string {
+	return $(el).text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 叶子元素中第一个文本匹配 pattern 的元素
+ */
+function findByText($: CheerioAPI, item: Cheerio<Element>, pattern: RegExp): Element | undefined {
+	return item.find('*').toArray().find((el) => childElements(el).length === 0 && pattern.test(ownText($, el)));
+}
+
+function isUsableHref(href: string | undefined): boolean {
+	return !!href && !href.startsWith('#') && !href.startsWith('javascript:');
+}
+
+interface FieldGuess {
+	name: string;
+	find: (item: Cheerio<Element>) => Element | undefined;
+	type: FieldConfig['type'];
+	attribute?: (el: Element) => string | undefined;
+	transforms?: FieldConfig['transforms'];
+}
+
+function getFieldGuesses($: CheerioAPI): FieldGuess[] {
+	const longestText = (els: Element[]) =>
+		els.reduce<Element | undefined>((best, el) => (
+			ownText($, el).length > (best ? ownText($, best).length : 0) ? el : best
+		), undefined);
+
+	return [
+		{
+			name: 'title',
+			type: 'text',
+			find: (item) => item.find('h1, h2, h3, h4, h5, h6').toArray().find((el) => ownText($, el))
+				?? item.find('[class*="title"], [class*="name"]').toArray().find((el) => ownText($, el))
+				?? longestText(item.find('a[href]').toArray()),
+		},
+		{
+			name: 'link',
+			type: 'attribute',
+			find: (item) => item.find('a[href]').toArray().find((el) => isUsableHref(el.attribs.href)),
+			attribute: () => 'href',
+			transforms: [{ type: 'absoluteUrl' }],
+		},
+		{
+			name: 'image',
+			type: 'attribute',
+			find: (item) => item.find('img').first()[0],
+			// 懒加载图片的真实地址通常在 data-src 等属性中
+			attribute: (el) => ['data-src', 'data-original', 'data-lazy-src'].find((a) => el.attribs[a])
+				?? (el.attribs.src ? 'src' : undefined),
+			transforms: [{ type: 'absoluteUrl' }],
+		},
+		{
+			name: 'date',
+			type: 'text',
+			find: (item) => item.find('time').first()[0] ?? findByText($, item, DATE_PATTERN),
+		},
+		{
+			name: 'price',
+			type: 'text',
+			find: (item) => item.find('[class*="price"]').toArray().find((el) => PRICE_PATTERN.test(ownText($, el)))
+				?? findByText($, item, PRICE_PATTERN),
+		},
+		{
+			name: 'description',
+			type: 'text',
+			find: (item) => {
+				const p = longestText(item.find('p, [class*="desc"], [class*="summary"]').toArray());
+				return p && ownText($, p).length >= 20 ? p : undefined;
+			},
+		},
+	];
+}
+
+/**
+ * 从示例列表项推断字段：以第一项生成选择器，至少一半的示例项能匹配才保留
+ */
+function detectFields($: CheerioAPI, samples: Array<Cheerio<Element>>): FieldConfig[] {
+	const fields: FieldConfig[] = [];
+	for (const guess of getFieldGuesses($)) {
+		const target = guess.find(samples[0]);
+		if (!target) continue;
+		const selector = relativeSelector(samples[0], target);
+		if (!selector) continue;
+		const matched = samples.filter((s) => s.find(selector).length > 0).length;
+		if (matched < samples.length / 2) continue;
+
+		const attribute = guess.attribute?.(target);
+		if (guess.type === 'attribute' && !attribute) continue;
+		fields.push({
+			name: guess.name,
+			selector,
+			type: guess.type,
+			...(attribute && { attribute }),
+			...(guess.transforms && { transforms: guess.transforms }),
+		});
+	}
+	return fields;
+}
+
+function previewItem(item: Cheerio<Element>, fields: FieldConfig[], baseUrl: string): Record<string, unknown> {
+	const preview: Record<string, unknown> = {};
+	for (const field of fields) {
+		const el = item.find(field.selector).first();
+		const raw = field.type === 'attribute' ? el.attr(field.attribute!) ?? null : el.text().trim() || null;
+		preview[field.name] = field.transforms ? applyTransforms(raw, field.transforms, baseUrl) : raw;
+	}
+	return preview;
+}
+
+/**
+ * 为一组重复元素打分：数量越多、文本越丰富、包含链接和图片得分越高，导航区域降权
+ */
+function scoreGroup($: CheerioAPI, parent: Element, items: Element[]): number {
+	const samples = items.slice(0, SAMPLE_SIZE).map((el) => $(el));
+	const avg = (fn: (item: Cheerio<Element>) => number) =>
+		samples.reduce((sum, item) => sum + fn(item), 0) / samples.length;
+
+	const textLength = avg((item) => Math.min(item.text().replace(/\s+/g, ' ').trim().length, 200));
+	if (textLength < 5) return 0;
+	const richness = textLength / 50
+		+ avg((item) => (item.is('a[href]') || item.find('a[href]').length ? 1 : 0))
+		+ avg((item) => (item.find('img').length ? 1 : 0))
+		+ avg((item) => Math.min(item.find('*').length, 20)) / 10;
+
+	const inChrome = $(parent).closest('nav, header, footer, aside').length > 0
+		|| [parent, ...$(parent).parents().toArray()].some((el) =>
+			CHROME_PATTERN.test(`${el.attribs.id ?? ''} ${el.attribs.class ?? ''}`));
+
+	const score = Math.log2(items.length + 1) * (1 + richness) * (inChrome ? 0.3 : 1);
+	return Math.round(score * 100) / 100;
+}
+
+/**
+ * 分析页面中的重复结构，返回按得分排序的列表候选
+ * @param baseUrl 页面 URL，用于预览中的绝对链接
+ * @param limit 最多返回的候选数
+ */
+export function detectLists($: CheerioAPI, baseUrl: string, limit = 5): ListSuggestion[] {
+	const suggestions: ListSuggestion[] = [];
+
+	for (const parent of $('body, body *').toArray().filter(isElement)) {
+		if (IGNORED_TAGS.has(parent.name) || parent.name === 'svg') continue;
+
+		// 同一父元素下标签名和首个类名相同的子元素视为一组
+		const groups = new Map<string, Element[]>();
+		for (const child of childElements(parent)) {
+			if (IGNORED_TAGS.has(child.name)) continue;
+			const key = segment(child);
+			groups.set(key, [...(groups.get(key) ?? []), child]);
+		}
+
+		for (const [key, items] of groups) {
+			if (items.length < MIN_ITEMS) continue;
+			const score = scoreGroup($, parent, items);
+			if (score <= 0) continue;
+
+			const listSelector = `${uniqueSelector($, parent)} > ${key}`;
+			const samples = items.slice(0, SAMPLE_SIZE).map((el) => $(el));
+			const fields = detectFields($, samples);
+			suggestions.push({
+				listSelector,
+				itemCount: items.length,
+				score,
+				fields,
+				preview: previewItem(samples[0], fields, baseUrl),
+			});
+		}
+	}
+
+	return suggestions.sort((a, b) => b.score - a.score).slice(0, limit);
+}
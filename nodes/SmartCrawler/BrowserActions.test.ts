@@ -0,0 +1,124 @@
+import type { Page } from 'puppeteer';
+
+import { loadMoreItems, runBrowserActions } from './BrowserActions';
+
+function createPage(calls: string[]) {
+	const element = (selector: string) => ({
+		click: jest.fn(async () => { calls.push(`click ${selector}`); }),
+		type: jest.fn(async (text: string) => { calls.push(`type ${selector} ${text}`); }),
+		focus: jest.fn(async () => { calls.push(`focus ${selector}`); }),
+		select: jest.fn(async (...values: string[]) => { calls.push(`select ${selector} ${values.join('|')}`); return values; }),
+		scrollIntoView: jest.fn(async () => { calls.push(`scrollIntoView ${selector}`); }),
+	});
+	return {
+		waitForSelector: jest.fn(async (selector: string, { timeout }: { timeout: number }) => {
+			if (selector === '.missing') throw new Error(`Waiting for selector \`${selector}\` failed: ${timeout}ms exceeded`);
+			return element(selector);
+		}),
+		keyboard: { press: jest.fn(async (key: string) => { calls.push(`press ${key}`); }) },
+		evaluate: jest.fn(async (script: string) => { calls.push(`evaluate ${script}`); }),
+		waitForFunction: jest.fn(async (script: string) => { calls.push(`function ${script}`); }),
+	};
+}
+
+describe('BrowserActions', () => {
+	it('应按顺序执行各种操作', async () => {
+		const calls: string[] = [];
+		const page = createPage(calls);
+
+		await runBrowserActions(page as unknown as Page, [
+			{ type: 'click', selector: 'button.accept' },
+			{ type: 'type', selector: 'input[name=q]', text: '手机' },
+			{ type: 'press', selector: 'input[name=q]', key: 'Enter' },
+			{ type: 'select', selector: 'select.sort', value: 'price, desc' },
+			{ type: 'scroll' },
+			{ type: 'scroll', selector: '.footer' },
+			{ type: 'waitForSelector', selector: '.result', timeout: 3000 },
+			{ type: 'wait', duration: 1 },
+			{ type: 'evaluate', script: "document.querySelector('.modal')?.remove();", timeout: 2000 },
+		], () => {});
+
+		expect(calls).toEqual([
+			'click button.accept',
+			'type input[name=q] 手机',
+			'focus input[name=q]',
+			'press Enter',
+			'select select.sort price|desc',
+			'evaluate window.scrollTo(0, document.body.scrollHeight)',
+			'scrollIntoView .footer',
+			"function (async () => { document.querySelector('.modal')?.remove(); })().then(() => true)",
+		]);
+		expect(page.waitForSelector).toHaveBeenCalledWith('.result', { timeout: 3000 });
+		expect(page.waitForFunction).toHaveBeenCalledWith(expect.any(String), { timeout: 2000 });
+	});
+
+	it('失败时继续的操作应报告错误，否则抛出', async () => {
+		const calls: string[] = [];
+		const page = createPage(calls) as unknown as Page;
+		const errors: string[] = [];
+
+		await runBrowserActions(page, [
+			{ type: 'click', selector: '.missing', timeout: 500, continueOnFail: true },
+			{ type: 'click', selector: '.tab' },
+		], (message) => errors.push(message));
+
+		expect(errors).toEqual(['浏览器操作 1（click .missing）失败: Waiting for selector `.missing` failed: 500ms exceeded']);
+		expect(calls).toEqual(['click .tab']);
+
+		await expect(runBrowserActions(page, [
+			{ type: 'wait', duration: 1 },
+			{ type: 'type', text: 'abc' },
+			{ type: 'click', selector: '.tab' },
+		], () => {})).rejects.toThrow('浏览器操作 2（type）失败: 缺少选择器');
+		expect(calls).toEqual(['click .tab']);
+	});
+
+	describe('loadMoreItems', () => {
+		/** 模拟信息流：每次滚动或点击加载 batch 条，最多 total 条 */
+		function createFeed(total: number, batch = 10) {
+			let count = batch;
+			const load = () => { count = Math.min(total, count + batch); };
+			return {
+				$$: jest.fn(async () => Array.from({ length: count })),
+				$: jest.fn(async () => (count < total ? { click: jest.fn(async () => load()) } : null)),
+				evaluate: jest.fn(async (script: string) => {
+					if (script.startsWith('window.scrollTo')) load();
+					return count * 100;
+				}),
+			};
+		}
+
+		it('滚动到列表项不再增加为止', async () => {
+			const page = createFeed(35);
+
+			const iterations = await loadMoreItems(page as unknown as Page, { mode: 'scroll', itemSelector: '.item', waitTime: 0 });
+
+			expect(iterations).toBe(4);
+			expect((await page.$$()).length).toBe(35);
+		});
+
+		it('达到目标条数或最多次数时停止', async () => {
+			const page = createFeed(100);
+			await loadMoreItems(page as unknown as Page, { mode: 'scroll', itemSelector: '.item', targetCount: 25, waitTime: 0 });
+			expect((await page.$$()).length).toBe(30);
+
+			const limited = createFeed(100);
+			expect(await loadMoreItems(limited as unknown as Page, { mode: 'scroll', maxIterations: 2, waitTime: 0 })).toBe(2);
+		});
+
+		it('点击加载更多按钮，按钮消失时停止', async () => {
+			const page = createFeed(25);
+
+			const iterations = await loadMoreItems(page as unknown as Page, {
+				mode: 'loadMore',
+				loadMoreSelector: 'button.more',
+				itemSelector: '.item',
+				waitTime: 0,
+			});
+
+			expect(iterations).toBe(2);
+			expect(page.$).toHaveBeenCalledWith('button.more');
+			expect((await page.$$()).length).toBe(25);
+		});
+	});
+});
@@ -0,0 +1,150 @@
+/**
+ * BrowserActions - 浏览器模式下提取前按顺序执行的页面操作
+ * 点击、输入、按键、选择下拉选项、滚动、等待元素/时间和执行脚本
+ */
+import type { KeyInput, Page } from 'puppeteer';
+import { sleep } from 'n8n-workflow';
+
+export type BrowserActionType =
+	| 'click'
+	| 'type'
+	| 'press'
+	| 'select'
+	| 'scroll'
+	| 'waitForSelector'
+	| 'wait'
+	| 'evaluate';
+
+export interface BrowserAction {
+	type: BrowserActionType;
+	selector?: string;        // 操作的元素（puppeteer 选择器，支持 ::-p-xpath(...)、::-p-text(...)）；scroll 为空时滚动到页面底部
+	text?: string;            // type：输入的文本
+	key?: string;             // press：按键名，如 Enter、ArrowDown
+	value?: string;           // select：选项的 value，多选时用逗号分隔
+	duration?: number;        // wait：等待的毫秒数
+	script?: string;          // evaluate：在页面中执行的脚本（函数体，可 await）
+	timeout?: number;         // 等待元素和执行操作的超时（毫秒），默认 15000
+	continueOnFail?: boolean; // 失败时记录错误并继续后续操作
+}
+
+export const DEFAULT_ACTION_TIMEOUT = 15000;
+
+async function runAction(page: Page, action: BrowserAction): Promise<void> {
+	const timeout = action.timeout || DEFAULT_ACTION_TIMEOUT;
+	const element = async () => {
+		if (!action.selector) throw new Error('缺少选择器');
+		const handle = await page.waitForSelector(action.selector, { timeout });
+		if (!handle) throw new Error(`未找到元素 "${action.selector}"`);
+		return handle;
+	};
+
+	switch (action.type) {
+		case 'click':
+			await (await element()).click();
+			return;
+		case 'type':
+			await (await element()).type(action.text ?? '');
+			return;
+		case 'press':
+			if (action.selector) await (await element()).focus();
+			await page.keyboard.press((action.key || 'Enter') as KeyInput);
+			return;
+		case 'select': {
+			const values = (action.value ?? '').split(',').map((v) => v.trim()).filter(Boolean);
+			await (await element()).select(...values);
+			return;
+		}
+		case 'scroll':
+			if (action.selector) {
+				await (await element()).scrollIntoView();
+			} else {
+				await page.evaluate('window.scrollTo(0, document.body.scrollHeight)');
+			}
+			return;
+		case 'waitForSelector':
+			await element();
+			return;
+		case 'wait':
+			await sleep(action.duration ?? 0);
+			return;
+		case 'evaluate':
+			// 用 waitForFunction 执行以使用超时：脚本完成后返回 true，只执行一次
+			await page.waitForFunction(`(async () => { ${action.script ?? ''} })().then(() => true)`, { timeout });
+			return;
+		default:
+			throw new Error(`未知的浏览器操作 "${String(action.type)}"`);
+	}
+}
+
+/**
+ * 按顺序执行页面操作；失败的操作设置了 continueOnFail 时通过 onError 报告并继续，否则抛出错误
+ */
+export async function runBrowserActions(
+	page: Page,
+	actions: BrowserAction[],
+	onError: (message: string) => void,
+): Promise<void> {
+	for (const [index, action] of actions.entries()) {
+		let reason = '';
+		await runAction(page, action).catch((error: unknown) => {
+			reason = error instanceof Error ? error.message : String(error);
+		});
+		if (!reason) continue;
+
+		const message = `浏览器操作 ${index + 1}（${action.type}${action.selector ? ` ${action.selector}` : ''}）失败: ${reason}`;
+		if (!action.continueOnFail) throw new Error(message);
+		onError(message);
+	}
+}
+
+export type InfiniteScrollMode = 'scroll' | 'loadMore';
+
+export interface InfiniteScrollConfig {
+	mode: InfiniteScrollMode;
+	loadMoreSelector?: string; // loadMore：「加载更多」按钮，找不到或无法点击时停止
+	itemSelector?: string;     // 列表项选择器，数量不再增加时停止；为空时按页面高度判断
+	targetCount?: number;      // 列表项达到该数量时停止
+	maxIterations?: number;    // 最多滚动/点击次数，默认 20
+	maxDuration?: number;      // 总时长上限（毫秒），默认 60000
+	waitTime?: number;         // 每次滚动/点击后等待新内容的毫秒数，默认 1000
+}
+
+export const DEFAULT_SCROLL_ITERATIONS = 20;
+export const DEFAULT_SCROLL_DURATION = 60000;
+export const DEFAULT_SCROLL_WAIT = 1000;
+
+/**
+ * 无限滚动 / 点击「加载更多」，直到达到目标数量、没有新内容或超出次数/时长上限
+ * @returns 实际滚动/点击的次数
+ */
+export async function loadMoreItems(page: Page, config: InfiniteScrollConfig): Promise<number> {
+	const { itemSelector, targetCount } = config;
+	const maxIterations = config.maxIterations || DEFAULT_SCROLL_ITERATIONS;
+	const deadline = Date.now() + (config.maxDuration || DEFAULT_SCROLL_DURATION);
+	const measure = async (): Promise<number> => itemSelector
+		? (await page.$$(itemSelector)).length
+		: page.evaluate('document.body.scrollHeight') as Promise<number>;
+
+	let size = await measure();
+	let iterations = 0;
+	while (iterations < maxIterations && Date.now() < deadline) {
+		if (itemSelector && targetCount && size >= targetCount) break;
+
+		if (config.mode === 'loadMore') {
+			const button = config.loadMoreSelector ? await page.$(config.loadMoreSelector) : null;
+			if (!button) break;
+			// 按钮被隐藏或已失效时视为没有更多内容
+			const clicked = await button.click().then(() => true, () => false);
+			if (!clicked) break;
+		} else {
+			await page.evaluate('window.scrollTo(0, document.body.scrollHeight)');
+		}
+		iterations++;
+
+		await sleep(config.waitTime ?? DEFAULT_SCROLL_WAIT);
+		const next = await measure();
+		if (next <= size) break;
+		size = next;
+	}
+	return iterations;
+}
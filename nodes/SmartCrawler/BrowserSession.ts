@@ -0,0 +1,136 @@
+/**
+ * BrowserSession - 一次执行内共享的 Puppeteer 浏览器
+ * 首次使用时才启动，页面从有上限的页面池中分配，同一 Cookie 每个域名只注入一次
+ */
+import type { Browser, Page } from 'puppeteer';
+import type { CrawlerAuth } from './Auth';
+import { applyAuthToPage } from './Auth';
+import type { ProxyConfig } from './Proxy';
+import { getBrowserProxyServer, getProxyCredentials, parseProxy } from './Proxy';
+
+export interface BrowserSessionOptions {
+	maxPages?: number;   // 同时打开的页面上限，默认 4
+	proxy?: ProxyConfig; // 浏览器使用的代理
+}
+
+const LAUNCH_ARGS = ['--no-sandbox', '--disable-setuid-sandbox'];
+
+/**
+ * 把 "a=1; b=2" 形式的 Cookie 解析为 puppeteer 的 cookie 列表
+ */
+export function parseCookieString(cookie: string, url: string) {
+	const domain = new URL(url).hostname;
+	return cookie.split(';').map(c => {
+		const [name, ...rest] = c.trim().split('=');
+		return { name: name.trim(), value: rest.join('=').trim(), domain };
+	}).filter(c => c.name && c.value);
+}
+
+export class BrowserSession {
+	private browser: Promise<Browser> | null = null;
+	private readonly idlePages: Page[] = [];
+	private readonly waiters: Array<(page: Page | null) => void> = [];
+	private readonly cookieDomains = new Map<string, string>();
+	private readonly proxy?: URL;
+	private openPages = 0;
+	private closed = false;
+
+	constructor(private readonly options: BrowserSessionOptions = {}) {
+		if (options.proxy) this.proxy = parseProxy(options.proxy);
+	}
+
+	/**
+	 * 借出一个页面执行 fn，结束后归还到页面池
+	 * @param auth 认证信息，Cookie 注入到 url 所在域名，认证请求头交给 fn 附加到目标网站的请求上
+	 */
+	async withPage<T>(
+		url: string,
+		auth: CrawlerAuth,
+		fn: (page: Page, authHeaders: Record<string, string>) => Promise<T>,
+	): Promise<T> {
+		const page = await this.acquire();
+		try {
+			await this.applyCookies(page, url, auth.cookie ?? '');
+			const authHeaders = await applyAuthToPage(page, auth, this.proxy && getProxyCredentials(this.proxy));
+			return await fn(page, authHeaders);
+		} finally {
+			this.release(page);
+		}
+	}
+
+	/**
+	 * 关闭浏览器，可重复调用
+	 */
+	async close(): Promise<void> {
+		this.closed = true;
+		this.waiters.splice(0).forEach((resolve) => resolve(null));
+		if (!this.browser) return;
+
+		const launching = this.browser;
+		this.browser = null;
+		const browser = await launching.catch(() => null);
+		await browser?.close().catch(() => {});
+	}
+
+	private getBrowser(): Promise<Browser> {
+		if (!this.browser) {
+			const args = this.proxy
+				? [...LAUNCH_ARGS, `--proxy-server=${getBrowserProxyServer(this.proxy)}`]
+				: LAUNCH_ARGS;
+			this.browser = import('puppeteer').then((puppeteer) =>
+				puppeteer.default.launch({ headless: true, args }),
+			);
+		}
+		return this.browser;
+	}
+
+	private async acquire(): Promise<Page> {
+		if (this.closed) throw new Error('浏览器会话已关闭');
+
+		const idle = this.idlePages.pop();
+		if (idle) return idle;
+
+		if (this.openPages < (this.options.maxPages || 4)) {
+			this.openPages++;
+			let page: Page | undefined;
+			try {
+				page = await (await this.getBrowser()).newPage();
+			} finally {
+				if (!page) this.openPages--;
+			}
+			return page;
+		}
+
+		const page = await new Promise<Page | null>((resolve) => this.waiters.push(resolve));
+		if (!page) throw new Error('浏览器会话已关闭');
+		return page;
+	}
+
+	private release(page: Page): void {
+		if (this.closed) return;
+
+		const waiter = this.waiters.shift();
+		if (page.isClosed()) {
+			// 页面已失效，为等待者补开一个新页面
+			this.openPages--;
+			if (waiter) this.acquire().then(waiter, () => waiter(null));
+			return;
+		}
+		if (waiter) waiter(page);
+		else this.idlePages.push(page);
+	}
+
+	/**
+	 * 同一浏览器上下文内 Cookie 共享，每个域名注入一次即可
+	 */
+	private async applyCookies(page: Page, url: string, cookie: string): Promise<void> {
+		if (!cookie) return;
+
+		const domain = new URL(url).hostname;
+		if (this.cookieDomains.get(domain) === cookie) return;
+		this.cookieDomains.set(domain, cookie);
+
+		const cookies = parseCookieString(cookie, url);
+		if (cookies.length) await page.setCookie(...cookies);
+	}
+}
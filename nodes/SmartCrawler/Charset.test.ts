@@ -0,0 +1,56 @@
+import { decodeResponse, detectCharset } from './Charset';
+
+const GBK_TITLE = Buffer.from('d6d0cec4b1eacce2', 'hex');   // 中文标题
+const BIG5_TITLE = Buffer.from('c163c5e9bcd0c344', 'hex');  // 繁體標題
+const GBK_NAME = Buffer.from('d5c588d2b5c4d6f7d2b3', 'hex'); // 张堃的主页（「堃」不在 GB2312 中）
+const SJIS_TEXT = Buffer.from('82b182f182c982bf82cd814193fa967b8cea', 'hex'); // こんにちは、日本語
+const BIG5_SHORT = Buffer.from('a4a4a4e5', 'hex');   // 中文（按 GBK 解码是假名）
+const SJIS_KANJI = Buffer.from('93fa967b8cea', 'hex'); // 日本語（按 GBK 解码是扩展区的字）
+
+const page = (head: string, body: Buffer) =>
+	Buffer.concat([Buffer.from(`<html><head>${head}</head><body><p>`), body, Buffer.from('</p></body></html>')]);
+
+describe('Charset', () => {
+	it('应按 Content-Type 中的 charset 解码', () => {
+		expect(decodeResponse(page('', GBK_TITLE), 'text/html; charset=GBK')).toContain('<p>中文标题</p>');
+		// Content-Type 优先于页面中的声明
+		expect(detectCharset(page('<meta charset="gbk">', BIG5_TITLE), 'text/html;charset="big5"')).toBe('big5');
+	});
+
+	it('没有 Content-Type 时应使用 meta charset、http-equiv 或 XML 声明', () => {
+		expect(detectCharset(page('<meta charset=gb2312>', GBK_TITLE))).toBe('gb2312');
+		expect(decodeResponse(page('<meta http-equiv="Content-Type" content="text/html; charset=big5">', BIG5_TITLE), 'text/html'))
+			.toContain('繁體標題');
+		expect(detectCharset(Buffer.from('<?xml version="1.0" encoding="Shift_JIS"?><a/>'))).toBe('Shift_JIS');
+		// 不支持的声明被忽略
+		expect(detectCharset(page('<meta charset="x-unknown">', GBK_TITLE))).toBe('gbk');
+	});
+
+	it('BOM 优先于声明的编码', () => {
+		const bytes = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('<p>中文</p>')]);
+
+		expect(decodeResponse(bytes, 'text/html; charset=gbk')).toBe('<p>中文</p>');
+	});
+
+	it('没有声明时应按内容探测编码', () => {
+		expect(detectCharset(page('', Buffer.from('中文标题')))).toBe('utf-8');
+		expect(detectCharset(page('', GBK_TITLE))).toBe('gbk');
+		expect(detectCharset(page('', BIG5_TITLE))).toBe('big5');
+		expect(decodeResponse(page('', Buffer.concat([GBK_TITLE, GBK_NAME])))).toContain('<p>中文标题张堃的主页</p>');
+		expect(decodeResponse(page('', SJIS_TEXT))).toContain('こんにちは、日本語');
+	});
+
+	it('内容探测无法确定时应使用声明的编码，没有声明时按 UTF-8', () => {
+		expect(detectCharset(page('', BIG5_SHORT))).toBe('utf-8');
+		expect(detectCharset(page('', SJIS_KANJI))).toBe('utf-8');
+		expect(decodeResponse(page('<meta charset="big5">', BIG5_SHORT))).toContain('<p>中文</p>');
+		expect(decodeResponse(page('', SJIS_KANJI), 'text/html; charset=Shift_JIS')).toContain('<p>日本語</p>');
+	});
+
+	it('应使用手动指定的编码，不支持的编码报错', () => {
+		expect(decodeResponse(page('<meta charset="utf-8">', GBK_TITLE), 'text/html; charset=utf-8', 'gbk'))
+			.toContain('中文标题');
+		expect(decodeResponse(Buffer.from('abc'), undefined, 'auto')).toBe('abc');
+		expect(() => decodeResponse(Buffer.from('abc'), undefined, 'klingon')).toThrow('不支持的编码 "klingon"');
+	});
+});
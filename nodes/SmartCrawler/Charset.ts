@@ -0,0 +1,124 @@
+/**
+ * Charset - 响应字节的编码识别和解码（GBK、GB2312、Big5、Shift_JIS 等）
+ * 依次使用：手动指定的编码、BOM、Content-Type、<meta charset> / http-equiv、内容探测，都无法确定时按 UTF-8
+ */
+
+/** 在页面开头多少字节内查找 <meta charset> */
+const META_SCAN_BYTES = 4096;
+
+/** 没有声明且内容探测无法确定时使用的编码 */
+const DEFAULT_CHARSET = 'utf-8';
+
+const BOMS: Array<[number[], string]> = [
+	[[0xef, 0xbb, 0xbf], 'utf-8'],
+	[[0xfe, 0xff], 'utf-16be'],
+	[[0xff, 0xfe], 'utf-16le'],
+];
+
+/**
+ * 编码名称是否受支持（TextDecoder 的标签，不区分大小写，如 gb2312、x-sjis）
+ */
+export function isSupportedCharset(label: string): boolean {
+	try {
+		new TextDecoder(label);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function charsetFromBom(bytes: Buffer): string | undefined {
+	return BOMS.find(([bom]) => bom.every((b, i) => bytes[i] === b))?.[1];
+}
+
+/**
+ * Content-Type 中的 charset，如 text/html; charset=GBK
+ */
+function charsetFromContentType(contentType?: string): string | undefined {
+	return /charset\s*=\s*["']?([\w.:-]+)/i.exec(contentType ?? '')?.[1];
+}
+
+/**
+ * 页面开头的 <meta charset>、<meta http-equiv="Content-Type" content="...; charset=..."> 或 XML 声明中的编码
+ */
+function charsetFromMarkup(bytes: Buffer): string | undefined {
+	const head = bytes.subarray(0, META_SCAN_BYTES).toString('latin1');
+	return /<meta\b[^>]*?charset\s*=\s*["']?([\w.:-]+)/i.exec(head)?.[1]
+		?? /^\s*<\?xml\b[^>]*\bencoding\s*=\s*["']([\w.:-]+)/i.exec(head)?.[1];
+}
+
+/**
+ * 统计双字节字符：GB2312 区（常用简体字，首字节 0xA1-0xF7、尾字节 0xA1-0xFE，其中首字节 0xB0 起为汉字，之前为符号、假名等）、
+ * 首字节低于 0xA1（GBK 扩展区，如「堃」，Big5 中只有少见的香港字，Shift_JIS 中是常用汉字）、
+ * 首字节 0xA1 以上且尾字节低于 0xA1（Big5 常用字约三分之一在此，GBK 中是少见的繁体和生僻字）
+ */
+function countDoubleBytes(bytes: Buffer): { gb2312: number; hanzi: number; gbkOnly: number; big5Only: number; total: number } {
+	const counts = { gb2312: 0, hanzi: 0, gbkOnly: 0, big5Only: 0, total: 0 };
+	for (let i = 0; i < bytes.length; i++) {
+		const [lead, trail] = [bytes[i], bytes[i + 1]];
+		if (lead < 0x80) continue;
+		counts.total++;
+		if (lead < 0xa1) counts.gbkOnly++;
+		else if (trail < 0xa1) counts.big5Only++;
+		else if (lead <= 0xf7 && trail <= 0xfe) {
+			counts.gb2312++;
+			if (lead >= 0xb0) counts.hanzi++;
+		}
+		i++;
+	}
+	return counts;
+}
+
+/**
+ * 解码后没有替换字符时返回文本
+ */
+function tryDecode(bytes: Buffer, charset: string): string | undefined {
+	const text = new TextDecoder(charset).decode(bytes);
+	return text.includes('\uFFFD') ? undefined : text;
+}
+
+/**
+ * 内容探测：合法的 UTF-8 按 UTF-8；含较多假名的按 Shift_JIS；
+ * Big5 特有的字多于 GBK 扩展区的字且能完整解码的按 Big5；
+ * 过半是 GB2312 汉字的按 GBK，含扩展字时按 GB18030（GBK 的超集，可解码含「堃」等扩展字的 GBK 页面）。
+ * 其他情况无法确定（如只有常用字的短 Big5 文本按 GBK 解码是假名和符号，只有汉字的 Shift_JIS 文本落在 GBK 扩展区），返回 undefined
+ */
+function sniffCharset(bytes: Buffer): string | undefined {
+	try {
+		new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+		return 'utf-8';
+	} catch {
+		// 不是合法的 UTF-8
+	}
+
+	const japanese = tryDecode(bytes, 'shift_jis');
+	if (japanese) {
+		const chars = [...japanese].map((ch) => ch.charCodeAt(0));
+		const wide = chars.filter((code) => code > 0x7f).length;
+		const kana = chars.filter((code) => code >= 0x3040 && code <= 0x30ff).length;
+		if (kana > 0 && kana >= wide * 0.2) return 'shift_jis';
+	}
+	const counts = countDoubleBytes(bytes);
+	if (counts.big5Only > counts.gbkOnly && tryDecode(bytes, 'big5') !== undefined) return 'big5';
+	if (counts.hanzi * 2 > counts.total) return counts.gb2312 === counts.total ? 'gbk' : 'gb18030';
+	return undefined;
+}
+
+/**
+ * 识别响应的编码，声明的编码不受支持时继续尝试下一种方式，内容探测也无法确定时按 UTF-8
+ */
+export function detectCharset(bytes: Buffer, contentType?: string): string {
+	const declared = [charsetFromBom(bytes), charsetFromContentType(contentType), charsetFromMarkup(bytes)];
+	return declared.find((charset) => charset && isSupportedCharset(charset)) ?? sniffCharset(bytes) ?? DEFAULT_CHARSET;
+}
+
+/**
+ * 把响应字节解码为文本
+ * @param encoding 手动指定的编码，为空或 auto 时自动识别
+ */
+export function decodeResponse(bytes: Buffer, contentType?: string, encoding?: string): string {
+	const charset = encoding && encoding !== 'auto' ? encoding : detectCharset(bytes, contentType);
+	if (!isSupportedCharset(charset)) throw new Error(`不支持的编码 "${charset}"`);
+	// TextDecoder 默认去掉与编码一致的 BOM
+	return new TextDecoder(charset).decode(bytes);
+}
@@ -0,0 +1,73 @@
+import type { ElementHandle, Page } from 'puppeteer';
+
+import { clickAndFollow, findClickTarget } from './ClickNavigation';
+
+/** 模拟元素：按选择器返回子元素 */
+function createElement(name: string, children: Record<string, unknown[]> = {}) {
+	return {
+		name,
+		$$: jest.fn(async (selector: string) => children[selector] ?? []),
+		$: jest.fn(async (selector: string) => children[selector]?.[0] ?? null),
+		click: jest.fn(async () => {}),
+	};
+}
+
+function createPage(children: Record<string, unknown[]>) {
+	const listeners: Record<string, (event: unknown) => void> = {};
+	return {
+		listeners,
+		...createElement('page', children),
+		on: jest.fn((event: string, listener: (event: unknown) => void) => { listeners[event] = listener; }),
+		off: jest.fn((event: string) => { delete listeners[event]; }),
+		waitForNavigation: jest.fn(async () => null),
+	};
+}
+
+describe('ClickNavigation', () => {
+	it('应在第 N 个列表项的第 M 个元素内查找点击元素', async () => {
+		const items = [1, 2, 3].map((n) => createElement(`item${n}`, {
+			'.actions': [1, 2].map((m) => createElement(`actions${n}-${m}`, { button: [createElement(`button${n}-${m}`)] })),
+		}));
+		const page = createPage({ '.item': items, button: [createElement('first')] });
+
+		const target = await findClickTarget(page as unknown as Page, {
+			scope: [{ selector: '.item', index: 2 }, { selector: '.actions', index: 1 }],
+			selector: 'button',
+		});
+		expect((target as unknown as { name: string }).name).toBe('button3-2');
+
+		const first = await findClickTarget(page as unknown as Page, { scope: [], selector: 'button' });
+		expect((first as unknown as { name: string }).name).toBe('first');
+
+		await expect(findClickTarget(page as unknown as Page, { scope: [{ selector: '.item', index: 3 }], selector: 'button' }))
+			.rejects.toThrow('未找到第 4 个 ".item"');
+		await expect(findClickTarget(page as unknown as Page, { scope: [{ selector: '.item', index: 0 }], selector: 'a' }))
+			.rejects.toThrow('未找到点击元素 "a"');
+	});
+
+	it('整页跳转或路由变化时返回当前页面', async () => {
+		const page = createPage({});
+		const element = createElement('link');
+
+		expect(await clickAndFollow(page as unknown as Page, element as unknown as ElementHandle)).toBe(page);
+		expect(element.click).toHaveBeenCalled();
+		expect(page.waitForNavigation).toHaveBeenCalledWith({ waitUntil: 'networkidle2', timeout: 15000 });
+		expect(page.listeners.popup).toBeUndefined();
+
+		// 超时仍未跳转时也按当前页面处理
+		page.waitForNavigation.mockRejectedValueOnce(new Error('Navigation timeout of 500 ms exceeded'));
+		expect(await clickAndFollow(page as unknown as Page, element as unknown as ElementHandle, 500)).toBe(page);
+	});
+
+	it('打开新标签页时应等待加载并返回新页面', async () => {
+		const page = createPage({});
+		const popup = { waitForFunction: jest.fn(async () => true) };
+		const element = createElement('link');
+		element.click.mockImplementation(async () => page.listeners.popup(popup));
+		page.waitForNavigation.mockImplementation(() => new Promise(() => {}));
+
+		expect(await clickAndFollow(page as unknown as Page, element as unknown as ElementHandle)).toBe(popup);
+		expect(popup.waitForFunction).toHaveBeenCalledWith('document.readyState === "complete"', { timeout: 15000 });
+		expect(page.off).toHaveBeenCalledWith('popup', expect.any(Function));
+	});
+});
@@ -0,0 +1,59 @@
+/**
+ * ClickNavigation - 浏览器模式下模拟点击跳转
+ * 在第 N 个列表项内定位点击元素，跟随整页跳转、前端路由变化或新打开的标签页/弹窗
+ */
+import type { ElementHandle, Page } from 'puppeteer';
+
+export const DEFAULT_CLICK_TIMEOUT = 15000;
+
+export interface ClickStep {
+	selector: string; // puppeteer 选择器，在上一步的元素内查找
+	index: number;    // 取第几个匹配（从 0 开始）
+}
+
+export interface ClickTarget {
+	scope: ClickStep[]; // 依次定位的元素，如第 N 个列表项、其中第 M 个字段元素；为空时在整个页面中查找
+	selector: string;   // 在 scope 内点击的元素，取第一个匹配
+}
+
+/**
+ * 按 scope 依次定位，返回要点击的元素
+ */
+export async function findClickTarget(page: Page, target: ClickTarget): Promise<ElementHandle> {
+	let scope: Page | ElementHandle = page;
+	for (const step of target.scope) {
+		const element: ElementHandle | undefined = (await scope.$$(step.selector))[step.index];
+		if (!element) throw new Error(`未找到第 ${step.index + 1} 个 "${step.selector}"`);
+		scope = element;
+	}
+
+	const element = await scope.$(target.selector);
+	if (!element) throw new Error(`未找到点击元素 "${target.selector}"`);
+	return element;
+}
+
+/**
+ * 点击元素并等待跳转：整页跳转或前端路由变化（history.pushState）时返回当前页面，
+ * 打开新标签页/弹窗时等待其加载完成后返回新页面（由调用方关闭）；超时仍未跳转时按当前页面处理，如展开详情的弹层
+ */
+export async function clickAndFollow(
+	page: Page,
+	element: ElementHandle,
+	timeout = DEFAULT_CLICK_TIMEOUT,
+): Promise<Page> {
+	let onPopup: (popup: Page | null) => void = () => {};
+	const popup = new Promise<Page | null>((resolve) => { onPopup = resolve; });
+	page.on('popup', onPopup);
+
+	try {
+		const navigation = page.waitForNavigation({ waitUntil: 'networkidle2', timeout }).then(() => page, () => page);
+		await element.click();
+		const next = await Promise.race([popup, navigation]);
+		if (!next || next === page) return page;
+
+		await next.waitForFunction('document.readyState === "complete"', { timeout }).catch(() => {});
+		return next;
+	} finally {
+		page.off('popup', onPopup);
+	}
+}
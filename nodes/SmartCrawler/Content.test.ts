@@ -0,0 +1,33 @@
+import { JsonScope, loadPage } from './Content';
+
+describe('Content', () => {
+	it('自动识别应把 JSON 文本和已解析的值视为 JSON，其余视为 HTML', () => {
+		expect(loadPage('[{"a":1}]').json).toEqual(new JsonScope([{ a: 1 }]));
+		expect(loadPage({ a: 1 }).json).toEqual(new JsonScope({ a: 1 }));
+
+		const html = loadPage('[注意] <p>不是 JSON</p>');
+		expect(html.json).toBeUndefined();
+		expect(html.$?.('p').text()).toBe('不是 JSON');
+	});
+
+	it('JSON 模式应取浏览器渲染结果中 <pre> 的文本', () => {
+		const page = loadPage('<html><head></head><body><pre>{"items":[1,2]}</pre><div>格式化</div></body></html>', 'json');
+
+		expect(page.$).toBeNull();
+		expect(page.json?.value).toEqual({ items: [1, 2] });
+		expect(() => loadPage('<html><body>出错了</body></html>', 'json')).toThrow('响应不是合法的 JSON');
+	});
+
+	it('应从脚本赋值语句中提取全局变量的 JSON', () => {
+		const html = `<html><body>
+			<script>var x = 1;</script>
+			<script>window.__INITIAL_STATE__ = {"list":[{"title":"含 } 和 ] 的标题"}],"total":1};window.other = {};</script>
+		</body></html>`;
+
+		expect(loadPage(html, 'html', 'window.__INITIAL_STATE__').json?.value).toEqual({
+			list: [{ title: '含 } 和 ] 的标题' }],
+			total: 1,
+		});
+		expect(() => loadPage(html, 'html', 'window.__DATA__')).toThrow('未找到内嵌 JSON 的赋值语句 "window.__DATA__"');
+	});
+});
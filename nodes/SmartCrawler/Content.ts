@@ -0,0 +1,132 @@
+/**
+ * Content - 响应内容解析（HTML / JSON / 页面内嵌 JSON）和 JSONPath 查询
+ */
+import type { CheerioAPI } from 'cheerio';
+import { JSONPath } from 'jsonpath-plus';
+import { loadHtml } from './Selector';
+
+export type ResponseType = 'auto' | 'html' | 'json';
+
+/**
+ * JSON 模式下字段提取的范围（列表项、跳转目标等 JSON 值）
+ */
+export class JsonScope {
+	constructor(readonly value: unknown) {}
+}
+
+export interface LoadedPage {
+	$: CheerioAPI | null; // HTML 页面，JSON 响应时为 null
+	json?: JsonScope;     // JSON 响应或内嵌 JSON，存在时选择器均为 JSONPath
+}
+
+/**
+ * 执行 JSONPath，返回所有匹配值；相对路径（如 title）相对于 json
+ */
+export function queryJson(json: unknown, path: string): unknown[] {
+	return (JSONPath({ path, json: json as object, wrap: true }) as unknown[] | undefined) ?? [];
+}
+
+function parseJson(text: string, source: string): unknown {
+	let value: unknown;
+	let reason = '';
+	try {
+		value = JSON.parse(text);
+	} catch (e) {
+		reason = e instanceof Error ? e.message : String(e);
+	}
+	if (reason) throw new Error(`${source}不是合法的 JSON: ${reason}`);
+	return value;
+}
+
+/**
+ * 从 start 处的 { 或 [ 开始截取完整的 JSON 字面量（跳过字符串内的括号）
+ */
+function sliceJsonLiteral(text: string, start: number): string | null {
+	let depth = 0;
+	let quote = '';
+	for (let i = start; i < text.length; i++) {
+		const ch = text[i];
+		if (quote) {
+			if (ch === '\\') i++;
+			else if (ch === quote) quote = '';
+		} else if (ch === '"' || ch === '\'') {
+			quote = ch;
+		} else if (ch === '{' || ch === '[') {
+			depth++;
+		} else if (ch === '}' || ch === ']') {
+			depth--;
+			if (depth === 0) return text.slice(start, i + 1);
+		}
+	}
+	return null;
+}
+
+/**
+ * 页面内嵌的 JSON
+ * @param source script 元素的 CSS 选择器（如 script#__NEXT_DATA__），
+ *               或 window. 开头的全局变量（如 window.__INITIAL_STATE__，匹配脚本中的赋值语句）
+ */
+export function extractEmbeddedJson($: CheerioAPI, source: string): unknown {
+	if (!source.startsWith('window.')) {
+		const script = $(source).first();
+		if (script.length === 0) throw new Error(`未找到内嵌 JSON 的元素 "${source}"`);
+		return parseJson(script.text().trim(), `内嵌 JSON "${source}" `);
+	}
+
+	const name = source.slice('window.'.length).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const assignment = new RegExp(`(?<![\\w$.])(?:window\\.)?${name}\\s*=\\s*(?=[{[])`);
+	for (const script of $('script').toArray()) {
+		const text = $(script).text();
+		const match = assignment.exec(text);
+		if (!match) continue;
+		const literal = sliceJsonLiteral(text, match.index + match[0].length);
+		if (literal) return parseJson(literal, `内嵌 JSON "${source}" `);
+	}
+	throw new Error(`未找到内嵌 JSON 的赋值语句 "${source}"`);
+}
+
+/**
+ * JSON 响应的文本：浏览器模式下 JSON 被渲染为 <pre>，取其中的文本
+ */
+function getJsonText(content: string): string {
+	const text = content.trim();
+	if (!text.startsWith('<')) return text;
+	const $ = loadHtml(text);
+	const pre = $('body > pre').first();
+	return (pre.length ? pre.text() : $('body').text()).trim();
+}
+
+/**
+ * 自动识别：已解析的 JSON 或可以解析为 JSON 的文本视为 JSON，否则为 undefined
+ */
+function detectJson(content: unknown): JsonScope | undefined {
+	if (typeof content !== 'string') return new JsonScope(content);
+	const text = content.trim();
+	if (!text.startsWith('{') && !text.startsWith('[')) return undefined;
+	try {
+		return new JsonScope(JSON.parse(text));
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * 按响应类型解析页面内容
+ * @param content fetchStatic 返回的文本（或已解析的 JSON）或浏览器渲染后的 HTML
+ * @param jsonSource HTML 页面中内嵌 JSON 的来源，见 extractEmbeddedJson
+ */
+export function loadPage(content: unknown, responseType: ResponseType = 'auto', jsonSource?: string): LoadedPage {
+	if (responseType === 'json') {
+		const value = typeof content === 'string' ? parseJson(getJsonText(content), '响应') : content;
+		return { $: null, json: new JsonScope(value) };
+	}
+
+	if (responseType === 'auto') {
+		const json = detectJson(content);
+		if (json) return { $: null, json };
+	}
+
+	const $ = loadHtml(typeof content === 'string' ? content : JSON.stringify(content));
+	if (!jsonSource) return { $ };
+	return { $, json: new JsonScope(extractEmbeddedJson($, jsonSource)) };
+}
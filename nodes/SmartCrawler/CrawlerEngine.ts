@@ -2,15 +2,64 @@
  * CrawlerEngine - 独立的爬虫引擎，可用于外部测试
  * 支持模拟点击跳转功能
  */
-import axios from 'axios';
 import type { AnyNode } from 'domhandler';
+import type { Page } from 'puppeteer';
 import * as cheerio from 'cheerio';
+import type { CrawlerAuth } from './Auth';
+import type { ListSuggestion } from './AutoDetect';
+import { detectLists } from './AutoDetect';
+import type { BrowserAction, InfiniteScrollConfig } from './BrowserActions';
+import { loadMoreItems, runBrowserActions } from './BrowserActions';
+import { BrowserSession } from './BrowserSession';
+import type { ClickStep, ClickTarget } from './ClickNavigation';
+import { DEFAULT_CLICK_TIMEOUT, clickAndFollow, findClickTarget } from './ClickNavigation';
+import type { LoadedPage, ResponseType } from './Content';
+import { JsonScope, loadPage, queryJson } from './Content';
+import type { FetchContext, RequestConfig } from './Fetcher';
+import { DEFAULT_UA, fetchStatic, getJumpRequest, openPage } from './Fetcher';
+import type { PageCapture, PageCaptureConfig } from './PageCapture';
+import { capturePage } from './PageCapture';
+import type { PaginationConfig } from './Pagination';
+import type { ProxyConfig } from './Proxy';
+import { ProxyRotator } from './Proxy';
+import type { FieldTransform } from './Transforms';
+import { applyTransforms } from './Transforms';
+import { getFirstPageUrl, getNextPageUrl } from './Pagination';
+import type { RateLimitConfig } from './RateLimiter';
+import type { ResourceBlockConfig } from './ResourceBlocking';
+import { DEFAULT_BLOCKED_RESOURCE_TYPES } from './ResourceBlocking';
+import type { CapturedResponse, ResponseCaptureConfig } from './ResponseCapture';
+import { captureResponses } from './ResponseCapture';
+import { HostRateLimiter, mapWithConcurrency } from './RateLimiter';
+import type { FetchAttempt, RetryPolicy } from './Retry';
+import type { SkippedUrl } from './Robots';
+import { RobotsChecker } from './Robots';
+import type { SelectorType } from './Selector';
+import { select, toPageSelector } from './Selector';
+import type { SitemapConfig } from './Sitemap';
+import { fetchSitemapUrls } from './Sitemap';
+import type { SiteCrawlConfig } from './SiteCrawl';
+import {
+	DEFAULT_LINK_SELECTOR,
+	DEFAULT_SITE_MAX_DEPTH,
+	DEFAULT_SITE_MAX_PAGES,
+	canonicalizeUrl,
+	createUrlFilter,
+	extractPageContent,
+} from './SiteCrawl';
+import { extractStructuredData } from './StructuredData';
+import { resolveUrl } from './Url';
 
 export interface FieldConfig {
 	name: string;
 	selector: string;
+	selectorType?: SelectorType; // 字段选择器（含跳转的点击和目标选择器）的类型，默认与列表选择器相同
 	type: 'text' | 'html' | 'attribute';
 	attribute?: string;
+	multiple?: boolean;  // 提取所有匹配元素，返回数组（跳转字段跟随每个链接）
+	separator?: string;  // multiple 时用该分隔符把结果连接为字符串
+	maxCount?: number;   // multiple 时最多提取的元素数
+	transforms?: FieldTransform[]; // 按顺序执行的后处理，失败时该字段为 null 并记录到 _errors
 	isJump?: boolean;
 	jumpConfig?: JumpConfig;
 }
@@ -18,28 +67,130 @@ export interface FieldConfig {
 export interface JumpConfig {
 	clickSelector: string;  // 点击元素选择器
 	targetSelector?: string; // 目标页面数据选择器
-	urlTemplate?: string;   // URL模板，用于data-id场景，如 "/model/{id}"
+	urlTemplate?: string;   // URL模板，用于data-id场景，如 "/model/{id}"；JSON 模式下 {id} 为匹配的值
+	responseType?: ResponseType; // 跳转页响应类型，默认 auto
+	jsonSource?: string;    // 跳转页内嵌 JSON 的来源，见 CrawlerOptions.jsonSource
+	structuredData?: boolean; // 输出跳转页的结构化数据（忽略目标选择器和子字段）
+	structuredType?: string;  // 只输出该 @type 的第一个对象，如 Product
 	fields?: FieldConfig[];
+	inheritHeaders?: boolean; // 是否继承列表页请求头，默认 true
+	headers?: Record<string, string>; // 跳转请求额外的请求头（覆盖继承的同名请求头）
 }
 
 export interface CrawlerOptions {
 	url: string;
 	listSelector: string;
+	selectorType?: SelectorType; // 列表选择器、等待选择器和下一页选择器的类型，默认 css
+	responseType?: ResponseType; // 列表页响应类型，默认 auto（按内容识别 JSON）
+	jsonSource?: string;   // 把 HTML 中内嵌的 JSON 作为数据：script 选择器或 window.__INITIAL_STATE__ 等全局变量
+	structuredData?: boolean; // 每页输出一条结构化数据（JSON-LD、微数据、OpenGraph 等），不使用列表选择器和字段
+	autoDetect?: AutoDetectMode; // 分析第一页自动识别列表和字段（CSS 选择器），忽略列表选择器和字段
+	site?: SiteCrawlConfig; // 整站抓取：从 url 按广度优先跟随同域链接，每页输出一条，不使用列表选择器和分页
+	sitemap?: SitemapConfig; // 站点地图：url 为 sitemap.xml 或 sitemap 索引，抓取其中的页面，每页输出一条
+	respectRobots?: boolean; // 遵守 robots.txt：跳过禁止抓取的页面，按 Crawl-delay 限速
 	fields: FieldConfig[];
 	cookie?: string;
+	auth?: CrawlerAuth;    // 认证请求头 / Basic 认证，其中的 cookie 优先于 cookie 选项
 	userAgent?: string;
+	encoding?: string;     // 静态模式响应编码，如 gbk；默认按响应头、<meta charset> 和内容自动识别
 	maxItems?: number;
 	useBrowser?: boolean;  // 使用 puppeteer 渲染 JS 页面
 	waitSelector?: string; // useBrowser 时等待该选择器出现再提取
+	actions?: BrowserAction[];     // useBrowser 时在列表页（含分页、整站和站点地图的页面）提取前执行的操作
+	jumpActions?: BrowserAction[]; // useBrowser 时在跳转页提取前执行的操作
+	blockResources?: ResourceBlockConfig; // useBrowser 时屏蔽的资源类型和 URL，默认屏蔽图片和媒体（保存截图或 PDF 时不屏蔽）
+	captureResponses?: ResponseCaptureConfig; // useBrowser 时捕获列表页发出的 XHR/fetch 请求返回的 JSON
+	infiniteScroll?: InfiniteScrollConfig; // useBrowser 时列表页提取前不断滚动或点击「加载更多」，列表项选择器和目标数量默认取列表选择器和剩余条数
+	capturePages?: PageCaptureConfig; // useBrowser 时保存列表页（jumpPages 时含跳转页）提取前的截图和 PDF，附加在该页第一个条目或所属条目的 _captures 中
+	pagination?: PaginationConfig; // 分页配置，各页数据合并输出
+	concurrency?: number;  // 同时处理的列表项数（跳转页并发抓取），默认 1
+	rateLimit?: RateLimitConfig; // 按域名限速
+	retry?: RetryPolicy;   // 列表页和跳转页请求的重试策略
+	request?: RequestConfig; // 列表页请求的方法、请求头、查询参数和请求体
+	proxy?: ProxyConfig | ProxyConfig[]; // 代理，多个时静态请求依次轮换，浏览器使用第一个
+	strict?: boolean;      // 字段提取出错时中止抓取，默认置空并记录到 errors
+	session?: CrawlerSession; // 多次 crawl 共享的浏览器、限速器和代理轮换
 }
 
+/**
+ * 多次 crawl 共享的资源，由调用方创建和关闭
+ */
+export interface CrawlerSession {
+	browser?: BrowserSession;
+	limiter?: HostRateLimiter;
+	proxy?: ProxyRotator;
+	robots?: RobotsChecker;
+}
+
+/**
+ * suggest: 只返回列表候选，不抓取数据；crawl: 使用得分最高的候选抓取
+ */
+export type AutoDetectMode = 'suggest' | 'crawl';
+
 export interface CrawlerResult {
 	success: boolean;
 	data: Record<string, unknown>[];
-	errors: string[];
+	suggestions?: ListSuggestion[]; // autoDetect 时第一页识别出的列表候选，按得分排序
+	errors: string[];      // success 为 false 时最后一条为中止原因
+	skipped: SkippedUrl[]; // 被 robots.txt 禁止而跳过的页面，跳转页同时记录在条目的 _errors 中
+	responses?: CapturedResponse[]; // captureResponses 时各列表页捕获的响应
+	pageCaptures?: PageCapture[]; // capturePages 时没有条目的列表页（含整站和站点地图的页面）的截图和 PDF，如页面等待或加载更多失败时
+	diagnostics: FetchAttempt[]; // 每次失败的请求尝试
+}
+
+/**
+ * 列表项内各字段的错误，键为字段路径（跳转子字段为 detail.title）
+ */
+type FieldErrors = Record<string, string>;
+
+/**
+ * 提取一个列表项时的位置，以及收集的字段错误和跳转页的截图/PDF
+ */
+interface ItemState {
+	listItem?: ClickStep; // 在列表页中是第几个列表项，浏览器中模拟点击时在该列表项内点击
+	errors: FieldErrors;
+	captures: PageCapture[];
+	attempts: number; // 跳转页请求重试后成功时的最多尝试次数
+}
+
+/**
+ * 字段提取的范围：HTML 元素，或 JSON 模式下的 JSON 值（选择器为 JSONPath）
+ */
+type Scope = cheerio.Cheerio<AnyNode> | JsonScope;
+
+/**
+ * 整站抓取中的待抓取页面
+ */
+interface SitePage {
+	url: string;
+	depth: number;
+	referrer: string | null;
+}
+
+interface SiteCrawlOptions {
+	waitSelector: string;   // 浏览器中等待的选择器（已转换为 puppeteer 语法）
+	responseType: ResponseType;
+	jsonSource?: string;
+	concurrency: number;
+	maxItems?: number;
+	extract: (page: LoadedPage, url: string) => Promise<Record<string, unknown>>;
 }
 
-const DEFAULT_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+/**
+ * 单次 crawl 内共享的请求上下文
+ */
+interface CrawlContext extends FetchContext {
+	request: RequestConfig; // 列表页请求
+	selectorType: SelectorType; // 列表级选择器类型，字段未指定时使用
+	robots?: RobotsChecker; // 启用 robots.txt 时检查每个页面
+	actions: BrowserAction[];     // 列表页的浏览器操作
+	jumpActions: BrowserAction[]; // 跳转页的浏览器操作
+	onSkip: (skipped: SkippedUrl) => void;
+	onActionError: (message: string) => void; // 失败后继续的浏览器操作
+	capturePages?: PageCaptureConfig;
+	onCaptureError: (message: string) => void;
+	infiniteScroll?: InfiniteScrollConfig; // 模拟点击时列表项不在首屏，需要先加载更多
+}
 
 export class CrawlerEngine {
 	/**
@@ -87,10 +238,14 @@ export class CrawlerEngine {
 	 * 模拟点击 - 从指定元素出发，查找可跳转的链接
 	 * 支持：href、data-*属性、onclick内联事件
 	 */
-	private static findClickableLink(element: cheerio.Cheerio<AnyNode>, clickSelector: string): string | null {
+	private static findClickableLink(
+		element: cheerio.Cheerio<AnyNode>,
+		clickSelector: string,
+		selectorType: SelectorType,
+	): string | null {
 		// 1. 在元素内查找 clickSelector
 		if (clickSelector) {
-			const inner = element.find(clickSelector).first();
+			const inner = select(element, clickSelector, selectorType).first();
 			if (inner.length) {
 				const url = CrawlerEngine.extractUrlFromElement(inner);
 				if (url) return url;
@@ -136,8 +291,15 @@ export class CrawlerEngine {
 		return null;
 	}
 
-	private static resolveUrl(base: string, rel: string): string {
-		try { return new URL(rel, base).href; } catch { return rel; }
+	/**
+	 * JSON 值中的跳转链接：clickSelector 为 JSONPath（为空时取值本身），
+	 * 配置了 URL 模板时用匹配的值替换 {id}
+	 */
+	private static findJsonLink(scope: JsonScope, clickSelector: string, urlTemplate?: string): string | null {
+		const link = clickSelector ? queryJson(scope.value, clickSelector)[0] : scope.value;
+		if (typeof link !== 'string' && typeof link !== 'number') return null;
+		if (urlTemplate) return urlTemplate.replace('{id}', String(link));
+		return typeof link === 'string' ? link : null;
 	}
 
 	private static extractValue(
@@ -154,160 +316,519 @@ export class CrawlerEngine {
 	}
 
 	/**
-	 * 提取字段值（支持跳转）
+	 * JSON 值原样输出，提取类型为属性值时取对象的同名属性
+	 */
+	private static extractJsonValue(value: unknown, type: FieldConfig['type'], attribute?: string): unknown {
+		if (type === 'attribute' && attribute) {
+			return value && typeof value === 'object' ? (value as Record<string, unknown>)[attribute] ?? null : null;
+		}
+		return value ?? null;
+	}
+
+	/**
+	 * 在范围内查找选择器的所有匹配，JSON 范围使用 JSONPath
+	 */
+	private static selectAll(scope: Scope, selector: string, selectorType: SelectorType): Scope[] {
+		if (scope instanceof JsonScope) {
+			return queryJson(scope.value, selector).map((value) => new JsonScope(value));
+		}
+		const matches = select(scope, selector, selectorType);
+		return matches.toArray().map((_, i) => matches.eq(i));
+	}
+
+	/**
+	 * 页面的结构化数据，指定类型时只返回该类型的第一个对象；JSON 页面没有结构化数据
+	 */
+	private static getStructuredData(page: LoadedPage, url: string, type?: string): unknown {
+		if (!page.$) return null;
+		const data = extractStructuredData(page.$, url);
+		return type ? data.schema[type]?.[0] ?? null : data;
+	}
+
+	/**
+	 * 在整个页面中查找选择器的所有匹配，有 JSON 数据时使用 JSONPath
+	 */
+	private static selectFromPage(page: LoadedPage, selector: string, selectorType: SelectorType): Scope[] {
+		if (page.json) return CrawlerEngine.selectAll(page.json, selector, selectorType);
+		return page.$ ? CrawlerEngine.selectAll(page.$.root(), selector, selectorType) : [];
+	}
+
+	/**
+	 * 提取字段值并执行后处理，后处理失败不影响其他字段
+	 * @param path 字段路径，用于记录错误
 	 */
 	private static async extractField(
-		element: cheerio.Cheerio<AnyNode>,
+		element: Scope,
 		field: FieldConfig,
 		baseUrl: string,
-		cookie: string,
-		userAgent: string,
+		ctx: CrawlContext,
 		jumpLevel: number,
-		useBrowser: boolean = false,
+		state: ItemState,
+		path = field.name,
+	): Promise<unknown> {
+		let value = await CrawlerEngine.extractRaw(element, field, baseUrl, ctx, jumpLevel, state, path);
+		if (field.transforms?.length) {
+			try {
+				// 多值字段逐个值后处理，之后再连接
+				value = applyTransforms(value, field.transforms, baseUrl);
+			} catch (e) {
+				state.errors[path] = e instanceof Error ? e.message : String(e);
+				return null;
+			}
+		}
+
+		if (field.separator && field.multiple && !field.isJump && Array.isArray(value)) return value.join(field.separator);
+		return value;
+	}
+
+	/**
+	 * 提取字段原始值（支持跳转和多值）
+	 */
+	private static async extractRaw(
+		element: Scope,
+		field: FieldConfig,
+		baseUrl: string,
+		ctx: CrawlContext,
+		jumpLevel: number,
+		state: ItemState,
+		path: string,
 	): Promise<unknown> {
 		if (jumpLevel > 3) {
 			throw new Error('最多支持3跳');
 		}
 
-		const el = element.find(field.selector).first();
-		if (el.length === 0) return null;
+		const matches = CrawlerEngine.selectAll(element, field.selector, field.selectorType ?? ctx.selectorType);
+		if (!field.multiple) {
+			if (matches.length === 0) return null;
+			return CrawlerEngine.extractMatch(matches[0], field, baseUrl, ctx, jumpLevel, state, path, 0);
+		}
+
+		const count = field.maxCount ? Math.min(field.maxCount, matches.length) : matches.length;
+		const values: unknown[] = [];
+		for (let i = 0; i < count; i++) {
+			const value = await CrawlerEngine.extractMatch(
+				matches[i], field, baseUrl, ctx, jumpLevel, state, path, i,
+			);
+			if (value !== null) values.push(value);
+		}
+		return values;
+	}
 
+	/**
+	 * 从单个匹配元素（或 JSON 值）提取值，跳转字段会打开链接提取子字段
+	 * @param matchIndex 元素是字段选择器的第几个匹配，用于浏览器中模拟点击
+	 */
+	private static async extractMatch(
+		el: Scope,
+		field: FieldConfig,
+		baseUrl: string,
+		ctx: CrawlContext,
+		jumpLevel: number,
+		state: ItemState,
+		path: string,
+		matchIndex: number,
+	): Promise<unknown> {
 		// 非跳转字段
 		if (!field.isJump || !field.jumpConfig) {
-			return CrawlerEngine.extractValue(el, field.type, field.attribute);
+			return el instanceof JsonScope
+				? CrawlerEngine.extractJsonValue(el.value, field.type, field.attribute)
+				: CrawlerEngine.extractValue(el, field.type, field.attribute);
 		}
 
-		// 跳转字段 - 模拟点击
-		let href = CrawlerEngine.findClickableLink(el, field.jumpConfig.clickSelector);
+		// 跳转字段 - 先从 HTML（或 JSON 值）中找链接
+		const { clickSelector, targetSelector, urlTemplate, responseType = 'auto', jsonSource } = field.jumpConfig;
+		const selectorType = field.selectorType ?? ctx.selectorType;
+		let href: string | null;
+		if (el instanceof JsonScope) {
+			href = CrawlerEngine.findJsonLink(el, clickSelector, urlTemplate);
+		} else {
+			href = CrawlerEngine.findClickableLink(el, clickSelector, selectorType);
+			if (href?.startsWith('__data_id__:')) {
+				const dataId = href.replace('__data_id__:', '');
+				href = urlTemplate ? urlTemplate.replace('{id}', dataId) : null;
+			}
+		}
 
-		let jumpHtml: string;
+		// 跳转页按 JSON 解析时目标选择器是 JSONPath，浏览器中无需等待
+		const waitTarget = targetSelector && responseType !== 'json' && !jsonSource
+			? toPageSelector(targetSelector, selectorType)
+			: undefined;
+		let jumpContent: unknown;
 		let resolvedJumpUrl = baseUrl; // 用于子字段递归
+		const jumpCaptures: PageCapture[] | undefined = ctx.capturePages?.jumpPages ? [] : undefined;
+		const jumpCtx = CrawlerEngine.withAttemptCount(ctx, (attempts) => {
+			state.attempts = Math.max(state.attempts, attempts);
+		});
 
-		if (useBrowser) {
-			// 用 puppeteer 真正模拟点击跳转
-			jumpHtml = await CrawlerEngine.clickAndGetHtml(
+		if (href) {
+			resolvedJumpUrl = resolveUrl(baseUrl, href);
+			const skipReason = await CrawlerEngine.checkRobots(resolvedJumpUrl, ctx);
+			if (skipReason) {
+				state.errors[path] = skipReason;
+				return null;
+			}
+			const request = getJumpRequest(ctx.request, field.jumpConfig.inheritHeaders, field.jumpConfig.headers);
+			jumpContent = ctx.browser
+				? await openPage(ctx.browser, resolvedJumpUrl, jumpCtx, request, (page) =>
+					CrawlerEngine.withCaptures(page, resolvedJumpUrl, ctx, jumpCaptures, async () => {
+						await runBrowserActions(page, ctx.jumpActions, ctx.onActionError);
+						if (waitTarget) {
+							await page.waitForSelector(waitTarget, { timeout: 15000 }).catch(() => {});
+						}
+						return page.content();
+					}))
+				: await fetchStatic(resolvedJumpUrl, jumpCtx, request);
+		} else if (ctx.browser && clickSelector && !(el instanceof JsonScope)) {
+			// 找不到链接时用 puppeteer 真正模拟点击跳转：列表页中在对应列表项的第 matchIndex 个字段元素内点击，
+			// 跳转页中的字段没有对应位置，点击页面中的第一个匹配
+			const scope: ClickStep[] = jumpLevel === 1 && state.listItem
+				? [state.listItem, { selector: toPageSelector(field.selector, selectorType), index: matchIndex }]
+				: [];
+			jumpContent = await CrawlerEngine.clickAndGetHtml(
+				ctx.browser,
 				baseUrl,
-				field.jumpConfig.clickSelector,
-				field.jumpConfig.targetSelector,
-				cookie,
+				{ scope, selector: toPageSelector(clickSelector, selectorType) },
+				waitTarget,
+				jumpCtx,
+				jumpCaptures,
 			);
 		} else {
-			// 静态模式：从 HTML 中找链接
-			if (!href) return null;
-
-			if (href.startsWith('__data_id__:') && field.jumpConfig.urlTemplate) {
-				const dataId = href.replace('__data_id__:', '');
-				href = field.jumpConfig.urlTemplate.replace('{id}', dataId);
-			} else if (href.startsWith('__data_id__:')) {
-				return null;
-			}
+			return null;
+		}
+		state.captures.push(...(jumpCaptures ?? []).map((capture) => ({ ...capture, field: path })));
 
-			resolvedJumpUrl = CrawlerEngine.resolveUrl(baseUrl, href);
-			const jumpRes = await axios.get(resolvedJumpUrl, {
-				headers: { ...(cookie && { Cookie: cookie }), 'User-Agent': userAgent }
-			});
-			jumpHtml = jumpRes.data;
+		const jumpPage = loadPage(jumpContent, responseType, jsonSource);
+		if (field.jumpConfig.structuredData) {
+			return CrawlerEngine.getStructuredData(jumpPage, resolvedJumpUrl, field.jumpConfig.structuredType);
 		}
 
-		const $j = cheerio.load(jumpHtml);
-		const target = field.jumpConfig.targetSelector
-			? $j(field.jumpConfig.targetSelector).first()
-			: $j('body');
+		const target = targetSelector
+			? CrawlerEngine.selectFromPage(jumpPage, targetSelector, selectorType)[0]
+			: jumpPage.json ?? jumpPage.$?.('body');
 
-		if (target.length === 0) return null;
+		if (!target) return null;
 
 		// 有子字段配置
 		if (field.jumpConfig.fields?.length) {
 			const subData: Record<string, unknown> = {};
 			for (const sf of field.jumpConfig.fields) {
 				subData[sf.name] = await CrawlerEngine.extractField(
-					target, sf, resolvedJumpUrl, cookie, userAgent, jumpLevel + 1, useBrowser
+					target, sf, resolvedJumpUrl, ctx, jumpLevel + 1, state, `${path}.${sf.name}`,
 				);
 			}
 			return subData;
 		}
 
-		return target.text().trim();
+		return target instanceof JsonScope ? target.value ?? null : target.text().trim() || null;
 	}
 
 	/**
-	 * 用 puppeteer 获取渲染后的 HTML
+	 * 提取一个列表项（整站抓取时为一个页面）的所有字段，字段错误记录到 _errors 和 result.errors，
+	 * 跳转页的截图/PDF 记录到 _captures
 	 */
-	private static async getRenderedHtml(
+	private static async extractItem(
+		scope: Scope,
+		fields: FieldConfig[],
+		baseUrl: string,
+		ctx: CrawlContext,
+		strict: boolean,
+		result: CrawlerResult,
+		listItem?: ClickStep,
+	): Promise<Record<string, unknown>> {
+		const data: Record<string, unknown> = {};
+		const state: ItemState = { listItem, errors: {}, captures: [], attempts: 0 };
+
+		for (const field of fields) {
+			const value = CrawlerEngine.extractField(scope, field, baseUrl, ctx, 1, state);
+			data[field.name] = strict
+				? await value
+				: await value.catch((e) => {
+					state.errors[field.name] = e instanceof Error ? e.message : String(e);
+					return null;
+				});
+		}
+
+		if (Object.keys(state.errors).length) {
+			data._errors = state.errors;
+			for (const [path, message] of Object.entries(state.errors)) {
+				result.errors.push(`${path}: ${message}`);
+			}
+		}
+		if (state.captures.length) data._captures = state.captures;
+		CrawlerEngine.markAttempts([data], state.attempts);
+		return data;
+	}
+
+	/**
+	 * 返回记录尝试次数的 ctx：请求失败并将重试时，以下一次尝试的次数调用 onRetry
+	 */
+	private static withAttemptCount(ctx: CrawlContext, onRetry: (attempts: number) => void): CrawlContext {
+		return {
+			...ctx,
+			onAttempt: (attempt) => {
+				ctx.onAttempt(attempt);
+				if (attempt.retryDelay !== undefined) onRetry(attempt.attempt + 1);
+			},
+		};
+	}
+
+	/**
+	 * 请求重试后成功时，条目附带 _attempts（条目的列表页和跳转页请求中最多的尝试次数）
+	 */
+	private static markAttempts(items: Array<Record<string, unknown>>, attempts: number): void {
+		if (attempts <= 1) return;
+		for (const item of items) {
+			item._attempts = Math.max(attempts, (item._attempts as number | undefined) ?? 0);
+		}
+	}
+
+	/**
+	 * 页面中可跟随的链接（规范化后的绝对 URL），链接识别规则与跳转字段相同
+	 */
+	private static discoverLinks($: cheerio.CheerioAPI, pageUrl: string, linkSelector: string): string[] {
+		const links: string[] = [];
+		$(linkSelector).each((_, el) => {
+			const href = CrawlerEngine.extractUrlFromElement($(el));
+			if (!href || href.startsWith('__data_id__:')) return;
+			const link = canonicalizeUrl(resolveUrl(pageUrl, href));
+			if (link) links.push(link);
+		});
+		return links;
+	}
+
+	/**
+	 * 启用 robots.txt 时检查 url，被禁止时记录并返回原因
+	 */
+	private static async checkRobots(url: string, ctx: CrawlContext): Promise<string | null> {
+		const reason = ctx.robots ? await ctx.robots.check(url, ctx) : null;
+		if (reason) ctx.onSkip({ url, reason });
+		return reason;
+	}
+
+	/**
+	 * 抓取并提取整站/站点地图中的一个页面
+	 * @param required 为 true 时请求失败或被 robots.txt 禁止会中止抓取，否则只记录并返回 null
+	 */
+	private static async visitPage(
+		url: string,
+		options: SiteCrawlOptions,
+		ctx: CrawlContext,
+		result: CrawlerResult,
+		required: boolean,
+	): Promise<{ page: LoadedPage; data: Record<string, unknown> } | null> {
+		const skipReason = await CrawlerEngine.checkRobots(url, ctx);
+		if (skipReason) {
+			if (required) throw new Error(skipReason);
+			return null;
+		}
+
+		const captures: PageCapture[] = [];
+		let pageAttempts = 0;
+		const pageCtx = CrawlerEngine.withAttemptCount(ctx, (attempts) => { pageAttempts = attempts; });
+		const content = await CrawlerEngine.fetchPage(url, pageCtx, options.waitSelector, undefined, undefined, captures)
+			.catch((e) => {
+				if (required) throw e;
+				result.errors.push(`${url}: ${e instanceof Error ? e.message : String(e)}`);
+				return undefined;
+			})
+			.finally(() => result.pageCaptures?.push(...captures));
+		if (content === undefined) return null;
+
+		const page = loadPage(content, options.responseType, options.jsonSource);
+		const data = await options.extract(page, url);
+		CrawlerEngine.attachPageCaptures(result, captures, data);
+		CrawlerEngine.markAttempts([data], pageAttempts);
+		return { page, data };
+	}
+
+	/**
+	 * 列表页的截图/PDF 附加在该页第一个条目的 _captures 中（排在跳转页的之前），并从 pageCaptures 中移除
+	 */
+	private static attachPageCaptures(
+		result: CrawlerResult,
+		captures: PageCapture[],
+		item: Record<string, unknown> | undefined,
+	): void {
+		if (!item || captures.length === 0) return;
+		item._captures = [...captures, ...(item._captures as PageCapture[] | undefined ?? [])];
+		result.pageCaptures = result.pageCaptures?.filter((capture) => !captures.includes(capture));
+	}
+
+	/**
+	 * 站点地图：读取 sitemap 中的页面 URL 并发抓取，每页输出一条（附带 _url、_lastmod）
+	 */
+	private static async crawlSitemap(
+		sitemapUrl: string,
+		sitemap: SitemapConfig,
+		options: SiteCrawlOptions,
+		ctx: CrawlContext,
+		result: CrawlerResult,
+	): Promise<void> {
+		const maxPages = Math.min(sitemap.maxPages || DEFAULT_SITE_MAX_PAGES, options.maxItems || Infinity);
+		const entries = await fetchSitemapUrls(sitemapUrl, { ...sitemap, maxPages }, ctx);
+
+		const pages = await mapWithConcurrency(entries, options.concurrency, async (entry) => {
+			const visited = await CrawlerEngine.visitPage(entry.loc, options, ctx, result, false);
+			return visited && { ...visited.data, _url: entry.loc, _lastmod: entry.lastmod ?? null };
+		});
+		for (const page of pages) {
+			if (page) result.data.push(page);
+		}
+	}
+
+	/**
+	 * 整站抓取：按深度逐层抓取，同一层的页面并发处理，每页输出一条（附带 _url、_depth、_referrer）
+	 * 起始页失败时中止，其余页面失败只记录错误
+	 */
+	private static async crawlSite(
+		startUrl: string,
+		site: SiteCrawlConfig,
+		options: SiteCrawlOptions,
+		ctx: CrawlContext,
+		result: CrawlerResult,
+	): Promise<void> {
+		const {
+			maxDepth = DEFAULT_SITE_MAX_DEPTH,
+			linkSelector = DEFAULT_LINK_SELECTOR,
+		} = site;
+		const maxPages = Math.min(site.maxPages || DEFAULT_SITE_MAX_PAGES, options.maxItems || Infinity);
+		const isAllowed = createUrlFilter(site, startUrl);
+		const start = canonicalizeUrl(startUrl) ?? startUrl;
+		const seen = new Set([start]);
+		let queue: SitePage[] = [{ url: start, depth: 0, referrer: null }];
+		let visited = 0;
+
+		while (queue.length && visited < maxPages) {
+			const level = queue.slice(0, maxPages - visited);
+			visited += level.length;
+
+			const pages = await mapWithConcurrency(level, options.concurrency, async (target) => {
+				const loaded = await CrawlerEngine.visitPage(target.url, options, ctx, result, target.depth === 0);
+				if (!loaded) return null;
+
+				const { page, data } = loaded;
+				return {
+					data: { ...data, _url: target.url, _depth: target.depth, _referrer: target.referrer },
+					links: page.$ && target.depth < maxDepth
+						? CrawlerEngine.discoverLinks(page.$, target.url, linkSelector)
+						: [],
+				};
+			});
+
+			queue = [];
+			pages.forEach((page, i) => {
+				if (!page) return;
+				result.data.push(page.data);
+				for (const link of page.links) {
+					if (seen.has(link) || !isAllowed(link)) continue;
+					seen.add(link);
+					queue.push({ url: link, depth: level[i].depth + 1, referrer: level[i].url });
+				}
+			});
+		}
+	}
+
+	/**
+	 * 获取页面内容：启用浏览器时返回渲染后的 HTML，否则直接请求
+	 */
+	private static async fetchPage(
 		url: string,
+		ctx: CrawlContext,
 		waitSelector: string,
-		cookie?: string,
-	): Promise<string> {
-		const puppeteer = await import('puppeteer');
-		const browser = await puppeteer.default.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox'] });
+		scroll?: InfiniteScrollConfig,
+		capture?: { config: ResponseCaptureConfig; responses: CapturedResponse[] },
+		captures?: PageCapture[],
+	): Promise<unknown> {
+		return ctx.browser
+			? CrawlerEngine.getRenderedHtml(ctx.browser, url, waitSelector, ctx, scroll, capture, captures)
+			: fetchStatic(url, ctx, ctx.request);
+	}
+
+	/**
+	 * 执行 fn 后按 capturePages 保存页面的截图/PDF 到 captures：正常时为提取前的页面，
+	 * 操作或等待失败时为失败时的页面；重试时替换上一次尝试保存的内容
+	 */
+	private static async withCaptures<T>(
+		page: Page,
+		url: string,
+		ctx: CrawlContext,
+		captures: PageCapture[] | undefined,
+		fn: () => Promise<T>,
+	): Promise<T> {
 		try {
-			const page = await browser.newPage();
-
-			if (cookie) {
-				const cookies = cookie.split(';').map(c => {
-					const [name, ...rest] = c.trim().split('=');
-					return {
-						name: name.trim(),
-						value: rest.join('=').trim(),
-						domain: new URL(url).hostname,
-					};
-				}).filter(c => c.name && c.value);
-				if (cookies.length) await page.setCookie(...cookies);
+			return await fn();
+		} finally {
+			if (captures && ctx.capturePages) {
+				const taken = await capturePage(page, url, ctx.capturePages, (message) => ctx.onCaptureError(`${url}: ${message}`));
+				captures.splice(0, captures.length, ...taken);
 			}
+		}
+	}
 
-			await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
-
+	/**
+	 * 用 puppeteer 获取渲染后的 HTML
+	 */
+	private static async getRenderedHtml(
+		browser: BrowserSession,
+		url: string,
+		waitSelector: string,
+		ctx: CrawlContext,
+		scroll?: InfiniteScrollConfig,
+		capture?: { config: ResponseCaptureConfig; responses: CapturedResponse[] },
+		captures?: PageCapture[],
+	): Promise<string> {
+		return openPage(browser, url, ctx, ctx.request, (page) => CrawlerEngine.withCaptures(page, url, ctx, captures, async () => {
+			await runBrowserActions(page, ctx.actions, ctx.onActionError);
 			if (waitSelector) {
 				await page.waitForSelector(waitSelector, { timeout: 15000 });
 			}
+			if (scroll) {
+				await loadMoreItems(page, scroll);
+			}
 
-			const html = await page.content();
-			return html;
-		} finally {
-			await browser.close();
-		}
+			return page.content();
+		}), capture && ((page) => {
+			// 重试时丢弃上一次尝试捕获的响应
+			capture.responses.length = 0;
+			return captureResponses(page, capture.config, url, capture.responses);
+		}));
 	}
 
 	/**
 	 * 用 puppeteer 模拟点击并获取跳转后页面的 HTML
+	 * 每次点击都重新打开列表页，跟随整页跳转、前端路由变化或新标签页，提取后关闭新标签页
 	 */
 	private static async clickAndGetHtml(
+		browser: BrowserSession,
 		url: string,
-		clickSelector: string,
-		waitSelector?: string,
-		cookie?: string,
+		target: ClickTarget,
+		waitSelector: string | undefined,
+		ctx: CrawlContext,
+		captures?: PageCapture[],
 	): Promise<string> {
-		const puppeteer = await import('puppeteer');
-		const browser = await puppeteer.default.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox'] });
-		try {
-			const page = await browser.newPage();
-
-			if (cookie) {
-				const cookies = cookie.split(';').map(c => {
-					const [name, ...rest] = c.trim().split('=');
-					return {
-						name: name.trim(),
-						value: rest.join('=').trim(),
-						domain: new URL(url).hostname,
-					};
-				}).filter(c => c.name && c.value);
-				if (cookies.length) await page.setCookie(...cookies);
+		return openPage(browser, url, ctx, ctx.request, async (page) => {
+			await runBrowserActions(page, ctx.actions, ctx.onActionError);
+			const [listItem] = target.scope;
+			await page.waitForSelector(listItem?.selector ?? target.selector, { timeout: DEFAULT_CLICK_TIMEOUT });
+			// 列表项由无限滚动加载时，先加载到该列表项
+			if (listItem && ctx.infiniteScroll) {
+				await loadMoreItems(page, { ...ctx.infiniteScroll, itemSelector: listItem.selector, targetCount: listItem.index + 1 });
 			}
 
-			await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
-			await page.waitForSelector(clickSelector, { timeout: 15000 });
-			await page.click(clickSelector);
-			await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 15000 }).catch(() => {});
+			const jumpPage = await clickAndFollow(page, await findClickTarget(page, target));
+			try {
+				return await CrawlerEngine.withCaptures(jumpPage, jumpPage.url(), ctx, captures, async () => {
+					await runBrowserActions(jumpPage, ctx.jumpActions, ctx.onActionError);
+					if (waitSelector) {
+						await jumpPage.waitForSelector(waitSelector, { timeout: 15000 });
+					}
 
-			if (waitSelector) {
-				await page.waitForSelector(waitSelector, { timeout: 15000 });
+					return jumpPage.content();
+				});
+			} finally {
+				if (jumpPage !== page) await jumpPage.close().catch(() => {});
 			}
-
-			const html = await page.content();
-			return html;
-		} finally {
-			await browser.close();
-		}
+		});
 	}
 
 	/**
@@ -316,60 +837,211 @@ export class CrawlerEngine {
 	static async crawl(options: CrawlerOptions): Promise<CrawlerResult> {
 		const {
 			url,
-			listSelector,
-			fields,
+			selectorType: requestedSelectorType = 'css',
+			responseType = 'auto',
+			jsonSource,
+			structuredData = false,
+			autoDetect,
+			site,
+			sitemap,
+			respectRobots = false,
 			cookie = '',
 			userAgent = DEFAULT_UA,
+			encoding,
 			maxItems,
 			useBrowser = false,
 			waitSelector,
+			capturePages,
+			// 保存截图和 PDF 时默认加载完整的页面
+			blockResources = capturePages ? {} : { resourceTypes: DEFAULT_BLOCKED_RESOURCE_TYPES },
+			captureResponses: capture,
+			infiniteScroll,
+			actions = [],
+			jumpActions = [],
+			pagination,
+			concurrency = 1,
+			rateLimit,
+			retry = {},
+			auth,
+			request = {},
+			proxy = [],
+			strict = false,
+			session = {},
 		} = options;
+		let { listSelector, fields } = options;
+		const selectorType = autoDetect ? 'css' : requestedSelectorType;
+		const proxies = Array.isArray(proxy) ? proxy : [proxy];
+		// 未共享浏览器时本次 crawl 自行创建和关闭
+		const ownBrowser = useBrowser && !session.browser
+			? new BrowserSession({ maxPages: concurrency, proxy: proxies[0] })
+			: null;
+
+		const result: CrawlerResult = { success: true, data: [], errors: [], skipped: [], diagnostics: [] };
+		const ctx: CrawlContext = {
+			auth: { ...auth, cookie: auth?.cookie || cookie },
+			userAgent,
+			encoding,
+			block: blockResources,
+			browser: useBrowser ? session.browser ?? ownBrowser : null,
+			limiter: session.limiter ?? new HostRateLimiter(rateLimit),
+			proxy: session.proxy ?? new ProxyRotator(proxies),
+			retry,
+			request,
+			selectorType,
+			robots: respectRobots ? session.robots ?? new RobotsChecker() : undefined,
+			actions,
+			jumpActions,
+			onSkip: (skipped) => result.skipped.push(skipped),
+			onActionError: (message) => result.errors.push(message),
+			capturePages,
+			onCaptureError: (message) => result.errors.push(message),
+			infiniteScroll,
+			onAttempt: (attempt) => {
+				result.diagnostics.push(attempt);
+				const next = attempt.retryDelay !== undefined ? `，${attempt.retryDelay}ms 后重试` : '';
+				result.errors.push(`请求失败(第${attempt.attempt}次) ${attempt.url}: ${attempt.error}${next}`);
+			},
+		};
 
-		const result: CrawlerResult = { success: true, data: [], errors: [] };
+		// 列表选择器是 JSONPath 或不使用列表选择器时，浏览器中只等待配置的等待选择器
+		const htmlListSelector = !(responseType === 'json' || jsonSource || structuredData || autoDetect || site || sitemap
+			|| capture?.useAsList);
+		const pageWaitSelector = htmlListSelector ? waitSelector || listSelector : waitSelector;
+		const browserWaitSelector = pageWaitSelector ? toPageSelector(pageWaitSelector, selectorType) : '';
 
 		try {
-			let html: string;
+			if (capture && !useBrowser) throw new Error('捕获网络响应需要启用浏览器渲染');
+			if (capture) result.responses = [];
+			if (capturePages && !useBrowser) throw new Error('保存截图和 PDF 需要启用浏览器渲染');
+			if (capturePages) result.pageCaptures = [];
 
-			if (useBrowser) {
-				html = await CrawlerEngine.getRenderedHtml(url, waitSelector || listSelector, cookie);
-			} else {
-				const res = await axios.get(url, {
-					headers: { ...(cookie && { Cookie: cookie }), 'User-Agent': userAgent }
-				});
-				html = res.data;
+			if (site || sitemap) {
+				// 整站/站点地图：配置了字段时在整个页面中提取，否则输出结构化数据或默认的页面内容
+				const pageOptions: SiteCrawlOptions = {
+					waitSelector: browserWaitSelector,
+					responseType,
+					jsonSource,
+					concurrency,
+					maxItems,
+					extract: async (page, pageUrl) => {
+						if (fields.length) {
+							return CrawlerEngine.extractItem(page.json ?? page.$!.root(), fields, pageUrl, ctx, strict, result);
+						}
+						if (!page.$) return { data: page.json?.value ?? null };
+						return structuredData ? { ...extractStructuredData(page.$, pageUrl) } : extractPageContent(page.$);
+					},
+				};
+				if (site) await CrawlerEngine.crawlSite(url, site, pageOptions, ctx, result);
+				else await CrawlerEngine.crawlSitemap(url, sitemap!, pageOptions, ctx, result);
+				return result;
 			}
 
-			const $ = cheerio.load(html);
-			const items = $(listSelector);
+			let pageUrl: string | null = getFirstPageUrl(url, pagination);
+			const visited = new Set<string>();
 
-			if (items.length === 0) {
-				result.success = false;
-				result.errors.push(`未找到列表: "${listSelector}"`);
-				return result;
-			}
+			for (let pageNumber = 1; pageUrl && !visited.has(pageUrl); pageNumber++) {
+				visited.add(pageUrl);
 
-			const count = maxItems ? Math.min(items.length, maxItems) : items.length;
+				const skipReason = await CrawlerEngine.checkRobots(pageUrl, ctx);
+				if (skipReason) {
+					if (pageNumber === 1) throw new Error(skipReason);
+					// 被 robots.txt 禁止的分页视为结束
+					break;
+				}
 
-			for (let i = 0; i < count; i++) {
-				const item = items.eq(i);
-				const data: Record<string, unknown> = {};
+				// 无限滚动按列表项数量判断是否加载了新内容，列表选择器是 JSONPath 或尚未识别时按页面高度判断
+				const scroll = infiniteScroll && {
+					...infiniteScroll,
+					itemSelector: infiniteScroll.itemSelector
+						?? (htmlListSelector ? toPageSelector(listSelector, selectorType) : undefined),
+					targetCount: infiniteScroll.targetCount || (maxItems ? maxItems - result.data.length : undefined),
+				};
+				const responses: CapturedResponse[] = [];
+				const captures: PageCapture[] = [];
+				let pageAttempts = 0;
+				const content = await CrawlerEngine.fetchPage(
+					pageUrl,
+					CrawlerEngine.withAttemptCount(ctx, (attempts) => { pageAttempts = attempts; }),
+					browserWaitSelector,
+					scroll,
+					capture && { config: capture, responses },
+					captures,
+				).finally(() => result.pageCaptures?.push(...captures));
+				const page = loadPage(content, responseType, jsonSource);
+				result.responses?.push(...responses);
 
-				for (const field of fields) {
-					try {
-						data[field.name] = await CrawlerEngine.extractField(
-							item, field, url, cookie, userAgent, 1, useBrowser
-						);
-					} catch (e) {
-						data[field.name] = null;
-						result.errors.push(`${field.name}: ${e instanceof Error ? e.message : String(e)}`);
-					}
+				if (structuredData) {
+					// 结构化数据模式：每页输出一条
+					const data = CrawlerEngine.getStructuredData(page, pageUrl) as Record<string, unknown> | null;
+					if (!data) throw new Error('结构化数据只能从 HTML 页面提取');
+					const item = pagination ? { ...data, _pageUrl: pageUrl, _pageNumber: pageNumber } : data;
+					CrawlerEngine.attachPageCaptures(result, captures, item);
+					CrawlerEngine.markAttempts([item], pageAttempts);
+					result.data.push(item);
+
+					if (!pagination || (maxItems && result.data.length >= maxItems)) break;
+					pageUrl = getNextPageUrl(url, pagination, page, pageUrl, pageNumber, selectorType);
+					continue;
+				}
+
+				if (autoDetect && pageNumber === 1) {
+					if (!page.$) throw new Error('自动识别只能用于 HTML 页面');
+					result.suggestions = detectLists(page.$, pageUrl);
+					if (result.suggestions.length === 0) throw new Error('未识别到重复的列表结构');
+					if (autoDetect === 'suggest') break;
+					({ listSelector, fields } = result.suggestions[0]);
+				}
+
+				// 使用捕获的响应作为列表数据时，在每个响应中查找列表项；分页仍按页面 DOM 进行
+				if (capture?.useAsList && responses.length === 0) {
+					if (pageNumber > 1) break;
+					throw new Error(`未捕获到匹配的网络响应（${capture.patterns.join(', ')}）`);
+				}
+				const items = capture?.useAsList
+					? responses.flatMap((response) =>
+						CrawlerEngine.selectFromPage({ $: null, json: new JsonScope(response.data) }, listSelector, selectorType))
+					: CrawlerEngine.selectFromPage(page, listSelector, selectorType);
+
+				if (items.length === 0) {
+					// 分页时后续页没有数据视为结束
+					if (pageNumber > 1) break;
+					result.success = false;
+					result.errors.push(`未找到匹配列表选择器 "${listSelector}" 的元素`);
+					return result;
 				}
 
-				result.data.push(data);
+				const remaining = maxItems ? maxItems - result.data.length : items.length;
+				const count = Math.min(items.length, remaining);
+
+				const currentUrl = pageUrl;
+				const currentPage = pageNumber;
+				const pageListSelector = toPageSelector(listSelector, selectorType);
+				const pageData = await mapWithConcurrency(
+					items.slice(0, count),
+					concurrency,
+					async (item, index) => {
+						const listItem = item instanceof JsonScope ? undefined : { selector: pageListSelector, index };
+						const data = await CrawlerEngine.extractItem(item, fields, currentUrl, ctx, strict, result, listItem);
+						if (pagination) {
+							data._pageUrl = currentUrl;
+							data._pageNumber = currentPage;
+						}
+
+						return data;
+					},
+				);
+				CrawlerEngine.attachPageCaptures(result, captures, pageData[0]);
+				CrawlerEngine.markAttempts(pageData, pageAttempts);
+				result.data.push(...pageData);
+
+				if (!pagination || (maxItems && result.data.length >= maxItems)) break;
+				pageUrl = getNextPageUrl(url, pagination, page, pageUrl, pageNumber, selectorType);
 			}
 		} catch (e) {
 			result.success = false;
 			result.errors.push(e instanceof Error ? e.message : String(e));
+		} finally {
+			await ownBrowser?.close();
 		}
 
 		return result;
@@ -0,0 +1,226 @@
+/**
+ * Fetcher - 页面请求（静态模式 axios / 浏览器模式 puppeteer）
+ * 统一处理认证、请求方法/请求头/查询参数/请求体、限速和重试
+ */
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import type { HTTPRequest, Page } from 'puppeteer';
+import type { CrawlerAuth } from './Auth';
+import { getAxiosAuth } from './Auth';
+import type { BrowserSession } from './BrowserSession';
+import { decodeResponse } from './Charset';
+import type { ProxyRotator } from './Proxy';
+import type { ResourceBlockConfig } from './ResourceBlocking';
+import { createRequestBlocker } from './ResourceBlocking';
+import type { HostRateLimiter } from './RateLimiter';
+import type { FetchAttempt, RetryPolicy } from './Retry';
+import { checkResponseStatus, withRetry } from './Retry';
+import { withQuery } from './Url';
+
+export const DEFAULT_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RequestConfig {
+	method?: HttpMethod;              // 默认 GET
+	headers?: Record<string, string>;
+	query?: Record<string, string>;   // 追加到 URL 的查询参数
+	body?: Record<string, unknown> | string;
+	bodyType?: 'form' | 'json';       // 请求体编码，默认 form
+	binary?: boolean;                 // 静态模式返回原始字节（Buffer），不解析响应
+}
+
+/**
+ * 一次抓取内共享的请求上下文
+ */
+export interface FetchContext {
+	auth: CrawlerAuth;
+	userAgent: string;
+	browser: BrowserSession | null; // 浏览器模式下共享的会话
+	limiter: HostRateLimiter;
+	proxy?: ProxyRotator;           // 静态模式按请求轮换的代理
+	encoding?: string;              // 静态模式响应编码，为空或 auto 时自动识别
+	block?: ResourceBlockConfig;    // 浏览器模式屏蔽的资源类型和 URL
+	retry: RetryPolicy;
+	onAttempt: (attempt: FetchAttempt) => void;
+}
+
+/**
+ * 按 bodyType 编码请求体
+ */
+function encodeBody(request: RequestConfig): { data?: string; contentType?: string } {
+	const { body, bodyType = 'form' } = request;
+	if (body === undefined || body === '') return {};
+
+	if (bodyType === 'json') {
+		return {
+			data: typeof body === 'string' ? body : JSON.stringify(body),
+			contentType: 'application/json',
+		};
+	}
+
+	const data = typeof body === 'string'
+		? body
+		: new URLSearchParams(
+			Object.entries(body).map(([key, value]): [string, string] => [key, String(value ?? '')]),
+		).toString();
+	return { data, contentType: 'application/x-www-form-urlencoded' };
+}
+
+/**
+ * 响应字节按编码解码为文本（binary 时原样返回字节），已经是文本或对象的响应原样返回
+ */
+function decodeBody(res: AxiosResponse, ctx: FetchContext, request: RequestConfig): unknown {
+	const data: unknown = res.data;
+	if (!Buffer.isBuffer(data) && !(data instanceof ArrayBuffer)) return data;
+	const bytes = Buffer.from(data as ArrayBuffer);
+	if (request.binary) return bytes;
+	return decodeResponse(bytes, res.headers?.['content-type'] as string | undefined, ctx.encoding);
+}
+
+/**
+ * 静态模式获取页面内容：按响应头、<meta charset> 或内容识别编码后返回文本
+ */
+export async function fetchStatic(
+	url: string,
+	ctx: FetchContext,
+	request: RequestConfig = {},
+): Promise<unknown> {
+	const target = withQuery(url, request.query);
+	const method = request.method ?? 'GET';
+
+	return withRetry(target, async () => {
+		await ctx.limiter.wait(target);
+		const { headers, ...authConfig } = getAxiosAuth(ctx.auth);
+		const agents = ctx.proxy?.nextAgents();
+		const config = {
+			...authConfig,
+			// 使用代理 Agent 时关闭 axios 自带的代理（HTTP_PROXY 环境变量）
+			...(agents && { ...agents, proxy: false as const }),
+			// 取原始字节自行解码，axios 只能按 UTF-8 解码
+			responseType: 'arraybuffer' as const,
+			headers: { ...headers, 'User-Agent': ctx.userAgent, ...request.headers },
+		};
+
+		if (method === 'GET') {
+			const res = await axios.get(target, config);
+			return decodeBody(res, ctx, request);
+		}
+
+		const { data, contentType } = encodeBody(request);
+		const res = await axios.request({
+			...config,
+			url: target,
+			method,
+			data,
+			headers: { ...(contentType && { 'Content-Type': contentType }), ...config.headers },
+		});
+		return decodeBody(res, ctx, request);
+	}, ctx.retry, ctx.onAttempt);
+}
+
+/**
+ * 浏览器模式下拦截页面请求：非 GET 请求改写首个导航请求，认证和自定义请求头只附加到与 url 同源的请求，
+ * 屏蔽配置的资源类型和 URL
+ * @returns 停止拦截的函数，不需要拦截时返回 undefined
+ */
+async function interceptRequests(
+	page: Page,
+	url: string,
+	ctx: FetchContext,
+	request: RequestConfig,
+	headers: Record<string, string>,
+): Promise<(() => Promise<void>) | undefined> {
+	const method = request.method ?? 'GET';
+	const isBlocked = ctx.block && createRequestBlocker(ctx.block);
+	const hasHeaders = Object.keys(headers).length > 0;
+	if (method === 'GET' && !isBlocked && !hasHeaders) return undefined;
+
+	const origin = new URL(url).origin;
+	const isSameOrigin = (target: string) => {
+		try {
+			return new URL(target).origin === origin;
+		} catch {
+			return false;
+		}
+	};
+	const { data, contentType } = encodeBody(request);
+	let rewritten = method === 'GET';
+	const onRequest = (req: HTTPRequest) => {
+		if (req.isInterceptResolutionHandled()) return;
+		const extraHeaders = hasHeaders && isSameOrigin(req.url()) ? headers : undefined;
+		// 浏览器会规范化链接（补全路径、转义字符），按主框架的第一次导航匹配而不比较链接
+		if (!rewritten && req.isNavigationRequest() && req.frame() === page.mainFrame()) {
+			rewritten = true;
+			void req.continue({
+				method,
+				postData: data,
+				headers: { ...req.headers(), ...extraHeaders, ...(contentType && { 'content-type': contentType }) },
+			});
+		} else if (isBlocked?.(req)) {
+			void req.abort('blockedbyclient');
+		} else if (extraHeaders) {
+			void req.continue({ headers: { ...req.headers(), ...extraHeaders } });
+		} else {
+			void req.continue();
+		}
+	};
+
+	await page.setRequestInterception(true);
+	page.on('request', onRequest);
+	return async () => {
+		page.off('request', onRequest);
+		// 页面已关闭或浏览器已断开时忽略
+		await page.setRequestInterception(false).catch(() => {});
+	};
+}
+
+/**
+ * 浏览器模式打开页面并检查响应状态
+ */
+async function gotoPage(page: Page, url: string, ctx: FetchContext): Promise<void> {
+	await ctx.limiter.wait(url);
+	const res = await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+	checkResponseStatus(ctx.retry, res?.status(), res?.headers()['retry-after']);
+}
+
+/**
+ * 浏览器模式：借出页面并打开 url，再执行 fn（整个过程按重试策略重试）
+ * @param prepare 每次打开页面前执行（如监听网络响应），返回的函数在 fn 结束后执行
+ */
+export async function openPage<T>(
+	browser: BrowserSession,
+	url: string,
+	ctx: FetchContext,
+	request: RequestConfig,
+	fn: (page: Page) => Promise<T>,
+	prepare?: (page: Page) => () => Promise<void>,
+): Promise<T> {
+	const target = withQuery(url, request.query);
+	const auth = { ...ctx.auth, headers: { ...ctx.auth.headers, ...request.headers } };
+
+	return browser.withPage(target, auth, (page, authHeaders) => withRetry(target, async () => {
+		const finish = prepare?.(page);
+		const stopIntercepting = await interceptRequests(page, target, ctx, request, authHeaders);
+		try {
+			await gotoPage(page, target, ctx);
+			return await fn(page);
+		} finally {
+			await stopIntercepting?.();
+			await finish?.();
+		}
+	}, ctx.retry, ctx.onAttempt));
+}
+
+/**
+ * 跳转页请求：继承（默认）或覆盖列表页请求头，始终使用 GET
+ */
+export function getJumpRequest(
+	listRequest: RequestConfig,
+	inheritHeaders = true,
+	headers?: Record<string, string>,
+): RequestConfig {
+	return {
+		headers: { ...(inheritHeaders ? listRequest.headers : {}), ...headers },
+	};
+}
@@ -0,0 +1,91 @@
+import { diffItems, filterNewItems, getItemKey } from './Incremental';
+import type { SeenState, SnapshotState } from './Incremental';
+
+describe('Incremental', () => {
+	it('单个字段直接作为唯一键，多个字段或未指定字段时取哈希', () => {
+		const item = { title: '文章一', detail: { url: 'https://example.com/1' }, _pageUrl: 'https://example.com/list' };
+
+		expect(getItemKey(item, ['detail.url'])).toBe('https://example.com/1');
+		expect(getItemKey(item, ['title', 'detail.url'])).toMatch(/^[0-9a-f]{40}$/);
+		// 未指定字段时忽略 _ 开头的元数据
+		expect(getItemKey(item)).toBe(getItemKey({ ...item, _pageUrl: 'https://example.com/list?page=2' }));
+		expect(getItemKey(item, ['missing'])).toBeNull();
+	});
+
+	it('应过滤已出现的条目，遗忘过期的键', () => {
+		const state: SeenState = {};
+		const items = [{ id: 'a' }, { id: 'b' }, { id: 'a' }];
+
+		expect(filterNewItems(items, state, { keyFields: ['id'] }, 1000)).toEqual([{ id: 'a' }, { id: 'b' }]);
+		expect(filterNewItems([{ id: 'a' }, { id: 'c' }], state, { keyFields: ['id'], ttl: 500 }, 1200))
+			.toEqual([{ id: 'c' }]);
+		expect(state.seen).toEqual([['b', 1000], ['a', 1200], ['c', 1200]]);
+
+		// b 超过 500ms 未出现，被遗忘
+		expect(filterNewItems([{ id: 'b' }], state, { keyFields: ['id'], ttl: 500 }, 1600)).toEqual([{ id: 'b' }]);
+	});
+
+	it('超过最多记录条数时丢弃最久未出现的键', () => {
+		const state: SeenState = { seen: [['a', 1], ['b', 2]] };
+
+		filterNewItems([{ id: 'a' }, { id: 'c' }], state, { keyFields: ['id'], maxKeys: 2 }, 3);
+
+		expect(state.seen).toEqual([['a', 3], ['c', 3]]);
+	});
+
+	it('应与同一来源上次的结果对比，标记新增、变化和删除的条目', () => {
+		const state: SnapshotState = {};
+		const config = { keyFields: ['sku'] };
+
+		diffItems([
+			{ sku: 'a', price: 10, stock: true },
+			{ sku: 'b', price: 20, stock: true },
+			{ sku: 'c', price: 30, stock: true },
+		], state, 'https://example.com/list', config);
+		diffItems([{ sku: 'x', price: 1 }], state, 'https://example.com/other', config);
+
+		expect(diffItems([
+			{ sku: 'a', price: 10, stock: true, _pageNumber: 2 },
+			{ sku: 'b', price: 18, stock: false },
+			{ sku: 'd', price: 40, stock: true },
+		], state, 'https://example.com/list', config)).toEqual([
+			{ sku: 'b', price: 18, stock: false, _change: 'changed', _changes: {
+				price: { before: 20, after: 18 },
+				stock: { before: true, after: false },
+			} },
+			{ sku: 'd', price: 40, stock: true, _change: 'added' },
+			{ sku: 'c', price: 30, stock: true, _change: 'removed' },
+		]);
+		expect(state.snapshots?.['https://example.com/other']).toEqual([['x', { sku: 'x', price: 1 }]]);
+	});
+
+	it('每个来源最多保存指定条数，遗忘过期来源的上次结果', () => {
+		const state: SnapshotState = {};
+		const config = { keyFields: ['sku'], maxItems: 2, ttl: 10 };
+
+		diffItems([{ sku: 'a' }, { sku: 'b' }, { sku: 'c' }], state, 'list', config, 0);
+		expect(state.snapshots?.list.map(([key]) => key)).toEqual(['a', 'b']);
+		// 超出条数未保存的条目下次作为新增输出
+		expect(diffItems([{ sku: 'a' }, { sku: 'b' }, { sku: 'c' }], state, 'list', config, 1))
+			.toEqual([{ sku: 'c', _change: 'added' }]);
+
+		diffItems([{ sku: 'x' }], state, 'other', config, 5);
+		expect(diffItems([{ sku: 'x' }], state, 'other', config, 12)).toEqual([]);
+		expect(Object.keys(state.snapshots ?? {})).toEqual(['other']);
+		expect(state.snapshotTimes).toEqual({ other: 12 });
+	});
+
+	it('只比较指定字段，按输出类型过滤', () => {
+		const state: SnapshotState = {
+			snapshots: { list: [['a', { sku: 'a', price: 10, views: 1 }], ['b', { sku: 'b', price: 20, views: 1 }]] },
+		};
+
+		expect(diffItems([
+			{ sku: 'a', price: 10, views: 5 },
+			{ sku: 'b', price: 25, views: 5 },
+		], state, 'list', { keyFields: ['sku'], compareFields: ['price'], outputTypes: ['changed', 'unchanged'] })).toEqual([
+			{ sku: 'a', price: 10, views: 5, _change: 'unchanged' },
+			{ sku: 'b', price: 25, views: 5, _change: 'changed', _changes: { price: { before: 20, after: 25 } } },
+		]);
+	});
+});
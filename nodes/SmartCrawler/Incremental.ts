@@ -0,0 +1,168 @@
+/**
+ * Incremental - 增量抓取
+ * 记录已输出条目的唯一键，后续执行只输出未出现过的条目
+ */
+import { createHash } from 'crypto';
+
+export interface IncrementalConfig {
+	keyFields?: string[]; // 计算唯一键的字段（支持 detail.url 形式的路径），为空时使用所有不以 _ 开头的字段
+	maxKeys?: number;     // 最多保存的键数，超出时丢弃最久未出现的，默认 1000
+	ttl?: number;         // 键的有效期（毫秒），超过该时间未再出现的键被遗忘，0 表示不过期
+}
+
+/**
+ * 保存在工作流静态数据中的状态：[唯一键, 最近出现时间]，按最近出现时间排序
+ */
+export interface SeenState {
+	seen?: Array<[string, number]>;
+	seenReset?: boolean; // 已按“重置已输出记录”清空过，选项关闭前不再重复清空
+}
+
+export const DEFAULT_MAX_KEYS = 1000;
+
+function getPath(item: Record<string, unknown>, path: string): unknown {
+	let value: unknown = item;
+	for (const key of path.split('.')) {
+		if (!value || typeof value !== 'object') return undefined;
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+}
+
+/**
+ * 条目的唯一键：单个字段为字符串或数字时直接使用其值，否则取字段值的哈希
+ * 指定的字段都为空时返回 null（无法判断，视为新条目）
+ */
+export function getItemKey(item: Record<string, unknown>, keyFields: string[] = []): string | null {
+	if (!keyFields.length) {
+		const fields = Object.entries(item).filter(([key]) => !key.startsWith('_'));
+		return createHash('sha1').update(JSON.stringify(fields)).digest('hex');
+	}
+
+	const values = keyFields.map((field) => getPath(item, field) ?? null);
+	if (values.every((value) => value === null || value === '')) return null;
+	if (values.length === 1 && (typeof values[0] === 'string' || typeof values[0] === 'number')) {
+		return String(values[0]);
+	}
+	return createHash('sha1').update(JSON.stringify(values)).digest('hex');
+}
+
+/**
+ * 过滤出未出现过的条目，并更新 state 中的键（直接修改 state，便于写回工作流静态数据）
+ */
+export function filterNewItems<T extends Record<string, unknown>>(
+	items: T[],
+	state: SeenState,
+	config: IncrementalConfig = {},
+	now = Date.now(),
+): T[] {
+	const { keyFields = [], maxKeys = DEFAULT_MAX_KEYS, ttl = 0 } = config;
+	const seen = new Map(state.seen ?? []);
+	if (ttl > 0) {
+		for (const [key, time] of seen) {
+			if (now - time > ttl) seen.delete(key);
+		}
+	}
+
+	const fresh: T[] = [];
+	for (const item of items) {
+		const key = getItemKey(item, keyFields);
+		if (key === null) {
+			fresh.push(item);
+			continue;
+		}
+		if (!seen.has(key)) fresh.push(item);
+		// 重新插入，使 Map 按最近出现时间排序
+		seen.delete(key);
+		seen.set(key, now);
+	}
+
+	state.seen = [...seen].slice(-maxKeys);
+	return fresh;
+}
+
+export type ChangeType = 'added' | 'changed' | 'removed' | 'unchanged';
+
+export interface ChangeDetectionConfig {
+	keyFields: string[];         // 唯一键字段，同一键的条目视为同一条目
+	compareFields?: string[];    // 比较的字段（支持嵌套路径），为空时比较所有不以 _ 开头的字段
+	outputTypes?: ChangeType[];  // 输出的变化类型，默认新增、变化和删除
+	maxItems?: number;           // 每个来源最多保存的条目数，超出的条目不保存（下次作为新增输出），默认 1000
+	ttl?: number;                // 来源的有效期（毫秒），超过该时间未再对比的来源的上次结果被遗忘，0 表示不过期
+}
+
+/**
+ * 保存在工作流静态数据中的上次结果：按页面链接分别保存 [唯一键, 条目] 和最近一次对比的时间
+ */
+export interface SnapshotState {
+	snapshots?: Record<string, Array<[string, Record<string, unknown>]>>;
+	snapshotTimes?: Record<string, number>;
+	snapshotReset?: boolean; // 已按“重置上次结果”清空过，选项关闭前不再重复清空
+}
+
+export const DEFAULT_CHANGE_TYPES: ChangeType[] = ['added', 'changed', 'removed'];
+
+/**
+ * 与同一页面链接上次的结果对比，条目附带 _change（变化类型），变化的条目附带 _changes（各字段的前后值）
+ * 本次结果替换 state 中的上次结果，并遗忘过期来源的上次结果；唯一键为空的条目总是作为新增输出，不参与对比
+ */
+export function diffItems<T extends Record<string, unknown>>(
+	items: T[],
+	state: SnapshotState,
+	source: string,
+	config: ChangeDetectionConfig,
+	now = Date.now(),
+): Array<Record<string, unknown>> {
+	const { keyFields, compareFields, outputTypes = DEFAULT_CHANGE_TYPES, maxItems = DEFAULT_MAX_KEYS, ttl = 0 } = config;
+	const snapshots = { ...state.snapshots };
+	const times = { ...state.snapshotTimes };
+	for (const key of Object.keys(snapshots)) {
+		// 没有记录时间的来源从现在开始计时
+		times[key] ??= now;
+		if (ttl > 0 && now - times[key] > ttl) {
+			delete snapshots[key];
+			delete times[key];
+		}
+	}
+
+	const previous = new Map(snapshots[source] ?? []);
+	const current = new Map<string, T>();
+	const output: Array<Record<string, unknown>> = [];
+	const emit = (type: ChangeType, item: Record<string, unknown>, changes?: Record<string, unknown>) => {
+		if (outputTypes.includes(type)) output.push({ ...item, _change: type, ...(changes && { _changes: changes }) });
+	};
+
+	for (const item of items) {
+		const key = getItemKey(item, keyFields);
+		if (key === null) {
+			emit('added', item);
+			continue;
+		}
+		if (current.has(key)) continue;
+		current.set(key, item);
+
+		const before = previous.get(key);
+		if (!before) {
+			emit('added', item);
+			continue;
+		}
+		const fields = compareFields?.length
+			? compareFields
+			: [...new Set([...Object.keys(before), ...Object.keys(item)])].filter((field) => !field.startsWith('_'));
+		const changes: Record<string, { before: unknown; after: unknown }> = {};
+		for (const field of fields) {
+			const [a, b] = [getPath(before, field) ?? null, getPath(item, field) ?? null];
+			if (JSON.stringify(a) !== JSON.stringify(b)) changes[field] = { before: a, after: b };
+		}
+		if (Object.keys(changes).length) emit('changed', item, changes);
+		else emit('unchanged', item);
+	}
+
+	for (const [key, item] of previous) {
+		if (!current.has(key)) emit('removed', item);
+	}
+
+	state.snapshots = { ...snapshots, [source]: [...current].slice(0, maxItems) };
+	state.snapshotTimes = { ...times, [source]: now };
+	return output;
+}
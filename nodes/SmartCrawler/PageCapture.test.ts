@@ -0,0 +1,74 @@
+import type { Page } from 'puppeteer';
+
+import { capturePage, getCaptureFileName } from './PageCapture';
+
+function createPage() {
+	const element = { screenshot: jest.fn(async () => new Uint8Array([2])) };
+	return {
+		element,
+		screenshot: jest.fn(async () => new Uint8Array([1])),
+		pdf: jest.fn(async () => new Uint8Array([3])),
+		$: jest.fn(async (selector: string) => (selector === '.missing' ? null : element)),
+	};
+}
+
+describe('PageCapture', () => {
+	it('应由页面链接生成文件名', () => {
+		expect(getCaptureFileName('https://example.com/list?page=2', 'png')).toBe('example.com_list_page_2.png');
+		expect(getCaptureFileName('https://example.com/', 'pdf')).toBe('example.com.pdf');
+		expect(getCaptureFileName('::', 'png')).toBe('page.png');
+	});
+
+	it('应保存整页截图和 PDF', async () => {
+		const page = createPage();
+
+		const captures = await capturePage(page as unknown as Page, 'https://example.com/list', {
+			screenshot: true,
+			pdf: true,
+			paperFormat: 'Letter',
+			landscape: true,
+		}, () => {});
+
+		expect(captures).toEqual([
+			{
+				type: 'screenshot',
+				url: 'https://example.com/list',
+				data: Buffer.from([1]),
+				mimeType: 'image/png',
+				fileName: 'example.com_list.png',
+			},
+			{
+				type: 'pdf',
+				url: 'https://example.com/list',
+				data: Buffer.from([3]),
+				mimeType: 'application/pdf',
+				fileName: 'example.com_list.pdf',
+			},
+		]);
+		expect(page.screenshot).toHaveBeenCalledWith({ type: 'png', fullPage: true });
+		expect(page.pdf).toHaveBeenCalledWith({ format: 'Letter', landscape: true, printBackground: true });
+	});
+
+	it('应截取指定元素，找不到元素时报告错误并继续', async () => {
+		const page = createPage();
+		const errors: string[] = [];
+
+		const captures = await capturePage(page as unknown as Page, 'https://example.com/', {
+			screenshot: true,
+			selector: '.item-list',
+			format: 'jpeg',
+			quality: 60,
+		}, (message) => errors.push(message));
+		expect(captures).toMatchObject([{ mimeType: 'image/jpeg', fileName: 'example.com.jpg' }]);
+		expect(page.element.screenshot).toHaveBeenCalledWith({ type: 'jpeg', quality: 60 });
+		expect(page.screenshot).not.toHaveBeenCalled();
+
+		const partial = await capturePage(page as unknown as Page, 'https://example.com/', {
+			screenshot: true,
+			pdf: true,
+			selector: '.missing',
+		}, (message) => errors.push(message));
+		expect(partial.map((capture) => capture.type)).toEqual(['pdf']);
+		expect(errors).toEqual(['截图失败: 未找到元素 ".missing"']);
+	});
+});
@@ -0,0 +1,89 @@
+/**
+ * PageCapture - 浏览器模式下保存页面截图和 PDF，用于排查实际渲染的内容或存档
+ */
+import type { Page, PaperFormat } from 'puppeteer';
+
+export type ScreenshotFormat = 'png' | 'jpeg';
+
+export interface PageCaptureConfig {
+	screenshot?: boolean;        // 保存截图
+	pdf?: boolean;               // 保存 PDF
+	selector?: string;           // 只截取该元素（puppeteer 选择器），为空时截取页面
+	fullPage?: boolean;          // 截取整个页面，默认 true；为 false 时只截取可视区域
+	format?: ScreenshotFormat;   // 截图格式，默认 png
+	quality?: number;            // jpeg 质量（0-100）
+	paperFormat?: PaperFormat;   // PDF 纸张大小，默认 A4
+	landscape?: boolean;         // PDF 横向
+	jumpPages?: boolean;         // 同时保存跳转页（跳转字段打开的页面）
+}
+
+export type PageCaptureType = 'screenshot' | 'pdf';
+
+export interface PageCapture {
+	type: PageCaptureType;
+	url: string;      // 页面链接
+	field?: string;   // 跳转页所属的跳转字段路径，如 detail、detail.author
+	data: Buffer;
+	mimeType: string;
+	fileName: string;
+}
+
+/**
+ * 由页面链接生成文件名，如 https://example.com/list?page=2 → example.com_list_page_2.png
+ */
+export function getCaptureFileName(url: string, extension: string): string {
+	let name = url;
+	try {
+		const { hostname, pathname, search } = new URL(url);
+		name = `${hostname}${pathname}${search}`;
+	} catch {
+		// 不是合法的 URL 时直接使用
+	}
+	const base = name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 100);
+	return `${base || 'page'}.${extension}`;
+}
+
+/**
+ * 保存页面的截图和/或 PDF，失败的一项通过 onError 报告，不影响另一项
+ */
+export async function capturePage(
+	page: Page,
+	url: string,
+	config: PageCaptureConfig,
+	onError: (message: string) => void,
+): Promise<PageCapture[]> {
+	const captures: PageCapture[] = [];
+	const take = async (
+		type: PageCaptureType,
+		label: string,
+		extension: string,
+		mimeType: string,
+		render: () => Promise<Uint8Array>,
+	) => {
+		await render().then(
+			(data) => {
+				captures.push({ type, url, data: Buffer.from(data), mimeType, fileName: getCaptureFileName(url, extension) });
+			},
+			(error: unknown) => onError(`${label}失败: ${error instanceof Error ? error.message : String(error)}`),
+		);
+	};
+
+	if (config.screenshot) {
+		const format = config.format ?? 'png';
+		const options = { type: format, ...(format === 'jpeg' && config.quality && { quality: config.quality }) };
+		await take('screenshot', '截图', format === 'jpeg' ? 'jpg' : 'png', `image/${format}`, async () => {
+			if (!config.selector) return page.screenshot({ ...options, fullPage: config.fullPage ?? true });
+			const element = await page.$(config.selector);
+			if (!element) throw new Error(`未找到元素 "${config.selector}"`);
+			return element.screenshot(options);
+		});
+	}
+	if (config.pdf) {
+		await take('pdf', '保存 PDF', 'pdf', 'application/pdf', () => page.pdf({
+			format: config.paperFormat ?? 'A4',
+			landscape: config.landscape ?? false,
+			printBackground: true,
+		}));
+	}
+	return captures;
+}
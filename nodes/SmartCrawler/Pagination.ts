@@ -0,0 +1,95 @@
+/**
+ * Pagination - 列表分页支持
+ * 支持三种模式：下一页选择器、URL 页码模板、offset/limit 查询参数
+ */
+import type { LoadedPage } from './Content';
+import { queryJson } from './Content';
+import type { SelectorType } from './Selector';
+import { select } from './Selector';
+import { resolveUrl, withQuery } from './Url';
+
+export type PaginationMode = 'nextSelector' | 'urlTemplate' | 'offset';
+
+export interface PaginationConfig {
+	mode: PaginationMode;
+	nextSelector?: string;  // 下一页链接选择器（JSON 模式为 JSONPath），找不到时停止
+	urlTemplate?: string;   // 页码模板，如 "?page={n}"，相对地址基于列表页 URL 解析
+	startPage?: number;     // 模板起始页码，默认 1
+	endPage?: number;       // 模板结束页码（含）
+	offsetParam?: string;   // offset 参数名，默认 offset
+	limitParam?: string;    // limit 参数名，默认 limit
+	pageSize?: number;      // 每页条数，默认 20
+	startOffset?: number;   // 起始 offset，默认 0
+	maxPages?: number;      // 最多抓取页数，默认 10
+}
+
+export const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * 按页序号（从 0 开始）计算模板/offset 模式下的页面 URL，超出范围返回 null
+ */
+function pageUrlAt(url: string, config: PaginationConfig, index: number): string | null {
+	if (config.mode === 'urlTemplate') {
+		if (!config.urlTemplate) return null;
+		const n = (config.startPage ?? 1) + index;
+		if (config.endPage !== undefined && n > config.endPage) return null;
+		return resolveUrl(url, config.urlTemplate.replace(/\{n\}/g, String(n)));
+	}
+
+	if (config.mode === 'offset') {
+		const pageSize = config.pageSize || 20;
+		return withQuery(url, {
+			[config.offsetParam || 'offset']: (config.startOffset ?? 0) + index * pageSize,
+			[config.limitParam || 'limit']: pageSize,
+		});
+	}
+
+	return null;
+}
+
+/**
+ * 第一页的 URL
+ */
+export function getFirstPageUrl(url: string, config?: PaginationConfig): string {
+	if (!config || config.mode === 'nextSelector') return url;
+	return pageUrlAt(url, config, 0) ?? url;
+}
+
+/**
+ * 下一页链接：HTML 取元素（或其中 a 标签）的 href，JSON 取 JSONPath 匹配的第一个字符串
+ */
+function findNextHref(page: LoadedPage, selector: string, selectorType: SelectorType): string | undefined {
+	if (page.json) {
+		const next = queryJson(page.json.value, selector)[0];
+		return typeof next === 'string' ? next : undefined;
+	}
+	if (!page.$) return undefined;
+	const next = select(page.$.root(), selector, selectorType).first();
+	return next.attr('href') || next.find('a[href]').first().attr('href');
+}
+
+/**
+ * 下一页的 URL，没有下一页时返回 null
+ * @param page 当前页的内容
+ * @param pageNumber 当前页码（从 1 开始）
+ * @param selectorType 下一页选择器的类型（HTML 页面），与列表选择器相同
+ */
+export function getNextPageUrl(
+	url: string,
+	config: PaginationConfig,
+	page: LoadedPage,
+	currentUrl: string,
+	pageNumber: number,
+	selectorType: SelectorType = 'css',
+): string | null {
+	if (pageNumber >= (config.maxPages || DEFAULT_MAX_PAGES)) return null;
+
+	if (config.mode === 'nextSelector') {
+		if (!config.nextSelector) return null;
+		const href = findNextHref(page, config.nextSelector, selectorType);
+		if (!href || href.startsWith('#') || href.startsWith('javascript:')) return null;
+		return resolveUrl(currentUrl, href);
+	}
+
+	return pageUrlAt(url, config, pageNumber);
+}
@@ -0,0 +1,84 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+import { fetchStatic } from './Fetcher';
+import { ProxyRotator, credentialsToProxies, getBrowserProxyServer, parseProxy } from './Proxy';
+import { HostRateLimiter } from './RateLimiter';
+
+function listen(server: http.Server): Promise<string> {
+	return new Promise((resolve) => {
+		server.listen(0, '127.0.0.1', () => {
+			resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+		});
+	});
+}
+
+describe('Proxy', () => {
+	/** 目标站点 */
+	const target = http.createServer((_req, res) => {
+		res.setHeader('Content-Type', 'text/html');
+		res.end('<ul><li class="item">来自目标站点</li></ul>');
+	});
+
+	/** 本地代理替身：转发绝对 URL 请求并记录收到的请求 */
+	const seen: Array<{ url?: string; auth?: string }> = [];
+	const proxy = http.createServer((req, res) => {
+		seen.push({ url: req.url, auth: req.headers['proxy-authorization'] });
+		const upstream = http.request(req.url!, { method: req.method, headers: req.headers }, (up) => {
+			res.writeHead(up.statusCode ?? 502, up.headers);
+			up.pipe(res);
+		});
+		upstream.on('error', () => res.writeHead(502).end());
+		req.pipe(upstream);
+	});
+
+	let targetUrl = '';
+	let proxyUrl = '';
+
+	beforeAll(async () => {
+		targetUrl = await listen(target);
+		proxyUrl = await listen(proxy);
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => target.close(resolve));
+		await new Promise((resolve) => proxy.close(resolve));
+	});
+
+	it('静态请求应经由代理并携带代理认证', async () => {
+		const html = await fetchStatic(`${targetUrl}/list`, {
+			auth: {},
+			userAgent: 'test',
+			browser: null,
+			limiter: new HostRateLimiter(),
+			proxy: new ProxyRotator([{ url: proxyUrl, username: 'u', password: 'p@ss' }]),
+			retry: {},
+			onAttempt: () => {},
+		});
+
+		expect(html).toContain('来自目标站点');
+		expect(seen).toEqual([
+			{ url: `${targetUrl}/list`, auth: `Basic ${Buffer.from('u:p@ss').toString('base64')}` },
+		]);
+	});
+
+	it('凭证中的多个代理地址应解析为代理列表', () => {
+		const proxies = credentialsToProxies({
+			proxyUrl: 'http://a.example:8080\n 10.0.0.2:3128 ,socks5://u2:p2@b.example:1080',
+			username: 'u',
+			password: 'p',
+		});
+
+		expect(proxies.map((p) => parseProxy(p).href)).toEqual([
+			'http://u:p@a.example:8080/',
+			'http://u:p@10.0.0.2:3128/',
+			'socks5://u2:p2@b.example:1080',
+		]);
+	});
+
+	it('浏览器代理参数不应包含认证信息', () => {
+		expect(getBrowserProxyServer(parseProxy({ url: 'socks5h://u:p@b.example:1080' }))).toBe(
+			'socks5://b.example:1080',
+		);
+	});
+});
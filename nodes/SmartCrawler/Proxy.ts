@@ -0,0 +1,117 @@
+/**
+ * Proxy - HTTP/HTTPS/SOCKS 代理（静态模式使用代理 Agent，浏览器模式使用 --proxy-server）
+ */
+import type { Agent } from 'http';
+import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+
+export interface ProxyConfig {
+	url: string;       // 如 http://127.0.0.1:8080、socks5://10.0.0.1:1080
+	username?: string;
+	password?: string;
+}
+
+export const PROXY_PROTOCOLS = ['http:', 'https:', 'socks:', 'socks4:', 'socks4a:', 'socks5:', 'socks5h:'];
+
+/**
+ * 解析代理地址并校验协议，username/password 作为地址中未带认证信息时的默认值
+ */
+export function parseProxy(proxy: ProxyConfig): URL {
+	const url = new URL(proxy.url.includes('://') ? proxy.url : `http://${proxy.url}`);
+	if (!PROXY_PROTOCOLS.includes(url.protocol)) {
+		throw new Error(`不支持的代理协议: ${url.protocol}`);
+	}
+	if (!url.username && proxy.username) {
+		url.username = encodeURIComponent(proxy.username);
+		url.password = encodeURIComponent(proxy.password ?? '');
+	}
+	return url;
+}
+
+/**
+ * 把 Smart Crawler Proxy 凭证转换为代理列表（代理地址每行一个）
+ */
+export function credentialsToProxies(credentials: ICredentialDataDecryptedObject | undefined): ProxyConfig[] {
+	if (!credentials) return [];
+	return String(credentials.proxyUrl ?? '')
+		.split(/[\n,]/)
+		.map((url) => url.trim())
+		.filter(Boolean)
+		.map((url) => ({
+			url,
+			username: (credentials.username as string) || undefined,
+			password: (credentials.password as string) || undefined,
+		}));
+}
+
+export interface ProxyAgents {
+	httpAgent: Agent;
+	httpsAgent: Agent;
+}
+
+/**
+ * 代理轮换：每次请求依次使用下一个代理
+ */
+export class ProxyRotator {
+	private readonly proxies: URL[];
+	private readonly agents = new Map<string, ProxyAgents>();
+	private index = 0;
+
+	constructor(proxies: ProxyConfig[]) {
+		this.proxies = proxies.map(parseProxy);
+	}
+
+	get size(): number {
+		return this.proxies.length;
+	}
+
+	/**
+	 * 下一个代理，没有配置代理时返回 undefined
+	 */
+	next(): URL | undefined {
+		if (this.proxies.length === 0) return undefined;
+		const proxy = this.proxies[this.index % this.proxies.length];
+		this.index++;
+		return proxy;
+	}
+
+	/**
+	 * 下一个代理对应的 axios Agent（同一代理复用 Agent）
+	 */
+	nextAgents(): ProxyAgents | undefined {
+		const proxy = this.next();
+		if (!proxy) return undefined;
+
+		let agents = this.agents.get(proxy.href);
+		if (!agents) {
+			agents = proxy.protocol.startsWith('socks')
+				? { httpAgent: new SocksProxyAgent(proxy), httpsAgent: new SocksProxyAgent(proxy) }
+				: { httpAgent: new HttpProxyAgent(proxy), httpsAgent: new HttpsProxyAgent(proxy) };
+			this.agents.set(proxy.href, agents);
+		}
+		return agents;
+	}
+}
+
+/**
+ * 浏览器启动参数 --proxy-server 的值（不含认证信息，认证通过 page.authenticate 完成）
+ */
+export function getBrowserProxyServer(proxy: URL): string {
+	let protocol = proxy.protocol;
+	if (protocol.startsWith('socks4')) protocol = 'socks4:';
+	else if (protocol.startsWith('socks')) protocol = 'socks5:';
+	return `${protocol}//${proxy.host}`;
+}
+
+/**
+ * 代理的认证信息
+ */
+export function getProxyCredentials(proxy: URL): { username: string; password: string } | undefined {
+	if (!proxy.username) return undefined;
+	return {
+		username: decodeURIComponent(proxy.username),
+		password: decodeURIComponent(proxy.password),
+	};
+}
@@ -0,0 +1,81 @@
+/**
+ * RateLimiter - 按域名限速与并发控制
+ */
+import { sleep } from 'n8n-workflow';
+
+export interface RateLimitConfig {
+	maxRequestsPerSecond?: number; // 同一域名每秒最多请求数，0 表示不限
+	minDelay?: number;             // 同一域名两次请求的最小间隔（毫秒）
+	jitter?: number;               // 每次请求额外的随机延迟上限（毫秒）
+}
+
+function getHost(url: string): string {
+	try { return new URL(url).host; } catch { return url; }
+}
+
+export class HostRateLimiter {
+	// 每个域名下一次允许发出请求的时间戳
+	private readonly nextSlot = new Map<string, number>();
+	// 单个域名额外要求的最小间隔（如 robots.txt 的 Crawl-delay）
+	private readonly hostDelay = new Map<string, number>();
+
+	constructor(private readonly config: RateLimitConfig = {}) {}
+
+	/**
+	 * 为 url 所在域名设置最小请求间隔（毫秒），与全局配置取较大值
+	 */
+	setMinDelay(url: string, delay: number): void {
+		this.hostDelay.set(getHost(url), delay);
+	}
+
+	/**
+	 * 等待直到可以向 url 所在域名发出请求
+	 */
+	async wait(url: string): Promise<void> {
+		const { maxRequestsPerSecond = 0, minDelay = 0, jitter = 0 } = this.config;
+		const host = getHost(url);
+		const interval = Math.max(
+			minDelay,
+			maxRequestsPerSecond > 0 ? 1000 / maxRequestsPerSecond : 0,
+			this.hostDelay.get(host) ?? 0,
+		);
+		if (interval <= 0 && jitter <= 0) return;
+
+		const now = Date.now();
+		const slot = Math.max(now, this.nextSlot.get(host) ?? 0) + Math.random() * jitter;
+		this.nextSlot.set(host, slot + interval);
+
+		if (slot > now) await sleep(slot - now);
+	}
+}
+
+/**
+ * 以有限并发执行 fn，结果顺序与输入一致
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	concurrency: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	let failed = false;
+
+	const worker = async () => {
+		while (!failed && next < items.length) {
+			const index = next++;
+			let done = false;
+			try {
+				results[index] = await fn(items[index], index);
+				done = true;
+			} finally {
+				// 任一任务失败后不再调度新任务
+				if (!done) failed = true;
+			}
+		}
+	};
+
+	const workers = Math.max(1, Math.min(concurrency || 1, items.length));
+	await Promise.all(Array.from({ length: workers }, worker));
+	return results;
+}
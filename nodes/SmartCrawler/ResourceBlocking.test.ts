@@ -0,0 +1,38 @@
+import type { HTTPRequest } from 'puppeteer';
+
+import { createRequestBlocker, TRACKER_DOMAINS } from './ResourceBlocking';
+
+const request = (url: string, resourceType = 'script', isNavigation = false) => ({
+	url: () => url,
+	resourceType: () => resourceType,
+	isNavigationRequest: () => isNavigation,
+}) as unknown as HTTPRequest;
+
+describe('ResourceBlocking', () => {
+	it('应按资源类型屏蔽，导航请求始终放行', () => {
+		const isBlocked = createRequestBlocker({ resourceTypes: ['image', 'font'] })!;
+
+		expect(isBlocked(request('https://example.com/a.png', 'image'))).toBe(true);
+		expect(isBlocked(request('https://example.com/a.woff2', 'font'))).toBe(true);
+		expect(isBlocked(request('https://example.com/a.css', 'stylesheet'))).toBe(false);
+		expect(isBlocked(request('https://example.com/', 'document', true))).toBe(false);
+	});
+
+	it('应按域名（含子域名）和 URL 模式屏蔽', () => {
+		const isBlocked = createRequestBlocker({ urls: [...TRACKER_DOMAINS, 'Ads.Example.com', '**/*.mp4'] })!;
+
+		expect(isBlocked(request('https://www.google-analytics.com/analytics.js'))).toBe(true);
+		expect(isBlocked(request('https://hm.baidu.com/hm.js?abc'))).toBe(true);
+		expect(isBlocked(request('https://ads.example.com/a.js'))).toBe(true);
+		expect(isBlocked(request('https://cdn.ads.example.com/a.js'))).toBe(true);
+		expect(isBlocked(request('https://badads.example.com/a.js'))).toBe(false);
+		expect(isBlocked(request('https://www.baidu.com/s?wd=1'))).toBe(false);
+		expect(isBlocked(request('https://video.example.com/v/1.mp4', 'media'))).toBe(true);
+		expect(isBlocked(request('https://hm.baidu.com/', 'document', true))).toBe(false);
+	});
+
+	it('没有屏蔽规则时返回 undefined', () => {
+		expect(createRequestBlocker({})).toBeUndefined();
+		expect(createRequestBlocker({ resourceTypes: [], urls: [] })).toBeUndefined();
+	});
+});
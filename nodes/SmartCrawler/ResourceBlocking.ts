@@ -0,0 +1,64 @@
+/**
+ * ResourceBlocking - 浏览器模式下屏蔽图片、媒体、字体等资源和统计/广告请求
+ */
+import type { HTTPRequest, ResourceType } from 'puppeteer';
+import { createUrlMatcher } from './SiteCrawl';
+
+export interface ResourceBlockConfig {
+	resourceTypes?: ResourceType[]; // 屏蔽的资源类型，如 image、media、font、stylesheet
+	urls?: string[];                // 屏蔽的域名（含子域名）或 URL 模式（含 / 或 * 时按 Glob 匹配完整 URL）
+}
+
+/** 默认屏蔽的资源类型 */
+export const DEFAULT_BLOCKED_RESOURCE_TYPES: ResourceType[] = ['image', 'media'];
+
+/** 保存页面时默认不屏蔽的资源类型，使截图完整 */
+export const CAPTURE_RESOURCE_TYPES: ResourceType[] = ['image', 'media', 'font'];
+
+/** 常见的统计和广告域名 */
+export const TRACKER_DOMAINS = [
+	'google-analytics.com',
+	'googletagmanager.com',
+	'googlesyndication.com',
+	'googleadservices.com',
+	'doubleclick.net',
+	'connect.facebook.net',
+	'hotjar.com',
+	'segment.io',
+	'mixpanel.com',
+	'clarity.ms',
+	'hm.baidu.com',
+	'cnzz.com',
+	'51.la',
+	'growingio.com',
+	'sensorsdata.cn',
+];
+
+/**
+ * 创建请求过滤函数，返回 true 表示屏蔽该请求；页面导航请求始终放行
+ * 没有任何屏蔽规则时返回 undefined，无需拦截请求
+ */
+export function createRequestBlocker(config: ResourceBlockConfig): ((request: HTTPRequest) => boolean) | undefined {
+	const types = new Set(config.resourceTypes ?? []);
+	const urls = config.urls ?? [];
+	if (types.size === 0 && urls.length === 0) return undefined;
+	const domains = urls.filter((url) => !/[/*]/.test(url)).map((domain) => domain.toLowerCase());
+	const matchesPattern = createUrlMatcher(urls.filter((url) => /[/*]/.test(url)));
+
+	const matchesDomain = (url: string) => {
+		let host: string;
+		try {
+			host = new URL(url).hostname;
+		} catch {
+			return false;
+		}
+		return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+	};
+
+	return (request) => {
+		if (request.isNavigationRequest()) return false;
+		if (types.has(request.resourceType())) return true;
+		const url = request.url();
+		return matchesDomain(url) || matchesPattern(url);
+	};
+}
@@ -0,0 +1,58 @@
+import type { HTTPResponse, Page } from 'puppeteer';
+
+import type { CapturedResponse } from './ResponseCapture';
+import { captureResponses } from './ResponseCapture';
+
+function createPage() {
+	let listener: ((response: HTTPResponse) => void) | undefined;
+	const page = {
+		on: jest.fn((_event: string, handler: (response: HTTPResponse) => void) => { listener = handler; }),
+		off: jest.fn(() => { listener = undefined; }),
+	};
+	const respond = (url: string, body: string | Promise<string>, resourceType = 'xhr', status = 200) => listener?.({
+		url: () => url,
+		status: () => status,
+		request: () => ({ resourceType: () => resourceType }),
+		text: async () => body,
+	} as unknown as HTTPResponse);
+	return { page, respond };
+}
+
+describe('ResponseCapture', () => {
+	it('应按响应顺序捕获匹配的 XHR/fetch JSON 响应', async () => {
+		const { page, respond } = createPage();
+		const captured: CapturedResponse[] = [];
+		let resolveSlow: (body: string) => void = () => {};
+
+		const stop = captureResponses(page as unknown as Page, { patterns: ['/api/**'] }, 'https://example.com/feed', captured);
+		respond('https://example.com/api/stories?page=1', new Promise((resolve) => { resolveSlow = resolve; }));
+		respond('https://example.com/api/stories?page=2', '{"items":[2]}', 'fetch');
+		respond('https://example.com/api/config.js', 'var a = 1');
+		respond('https://example.com/api/stories?page=3', '{"items":[3]}', 'script');
+		respond('https://example.com/other', '{}');
+		resolveSlow('{"items":[1]}');
+		await stop();
+
+		expect(page.off).toHaveBeenCalledWith('response', expect.any(Function));
+		expect(captured).toEqual([
+			{ url: 'https://example.com/api/stories?page=1', status: 200, pageUrl: 'https://example.com/feed', data: { items: [1] } },
+			{ url: 'https://example.com/api/stories?page=2', status: 200, pageUrl: 'https://example.com/feed', data: { items: [2] } },
+		]);
+	});
+
+	it('应支持正则模式，读取失败的响应忽略', async () => {
+		const { page, respond } = createPage();
+		const captured: CapturedResponse[] = [];
+
+		const stop = captureResponses(page as unknown as Page, {
+			patterns: ['graphql\\?op=(Feed|List)'],
+			patternType: 'regex',
+		}, 'https://example.com/', captured);
+		respond('https://example.com/graphql?op=Feed', '{"ok":true}');
+		respond('https://example.com/graphql?op=User', '{"ok":true}');
+		respond('https://example.com/graphql?op=List', Promise.reject(new Error('No resource with given identifier found')));
+		await stop();
+
+		expect(captured.map((r) => r.url)).toEqual(['https://example.com/graphql?op=Feed']);
+	});
+});
@@ -0,0 +1,55 @@
+/**
+ * ResponseCapture - 浏览器模式下捕获页面发出的 XHR/fetch 请求返回的 JSON
+ */
+import type { HTTPResponse, Page } from 'puppeteer';
+import type { UrlPatternType } from './SiteCrawl';
+import { createUrlMatcher } from './SiteCrawl';
+
+export interface ResponseCaptureConfig {
+	patterns: string[];           // 要捕获的请求 URL 模式，语法同整站抓取的包含 URL
+	patternType?: UrlPatternType; // 默认 glob
+	useAsList?: boolean;          // 用捕获的 JSON 代替页面 DOM 提取列表，列表选择器和字段为 JSONPath
+}
+
+export interface CapturedResponse {
+	url: string;
+	status: number;
+	pageUrl: string; // 发出请求的页面
+	data: unknown;   // 解析后的 JSON
+}
+
+/**
+ * 开始监听页面上匹配的 XHR/fetch 响应（包括页面加载、浏览器操作和滚动期间）
+ * @returns 停止监听的函数，等待所有响应体读取完成后按响应顺序写入 captured；不是 JSON 的响应忽略
+ */
+export function captureResponses(
+	page: Page,
+	config: ResponseCaptureConfig,
+	pageUrl: string,
+	captured: CapturedResponse[],
+): () => Promise<void> {
+	const matches = createUrlMatcher(config.patterns, config.patternType);
+	const pending: Array<Promise<CapturedResponse | null>> = [];
+
+	const onResponse = (response: HTTPResponse) => {
+		const type = response.request().resourceType();
+		if ((type !== 'xhr' && type !== 'fetch') || !matches(response.url())) return;
+
+		// 重定向等没有响应体的响应读取时会失败
+		pending.push(response.text().then((text) => {
+			try {
+				return { url: response.url(), status: response.status(), pageUrl, data: JSON.parse(text) as unknown };
+			} catch {
+				return null;
+			}
+		}, () => null));
+	};
+
+	page.on('response', onResponse);
+	return async () => {
+		page.off('response', onResponse);
+		for (const response of await Promise.all(pending)) {
+			if (response) captured.push(response);
+		}
+	};
+}
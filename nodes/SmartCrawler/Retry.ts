@@ -0,0 +1,152 @@
+/**
+ * Retry - 请求失败重试（指数退避，支持 Retry-After）
+ */
+import { sleep } from 'n8n-workflow';
+
+export interface RetryPolicy {
+	maxAttempts?: number;        // 总尝试次数（含首次），默认 1 即不重试
+	baseDelay?: number;          // 首次重试前等待（毫秒），默认 1000
+	backoffFactor?: number;      // 每次重试等待时间的倍数，默认 2
+	maxDelay?: number;           // 单次等待上限（毫秒），默认 60000
+	retryStatusCodes?: number[]; // 可重试的 HTTP 状态码
+	retryErrorCodes?: string[];  // 可重试的网络错误码
+}
+
+/**
+ * 一次失败的请求尝试
+ */
+export interface FetchAttempt {
+	url: string;
+	attempt: number;    // 第几次尝试（从 1 开始）
+	error: string;
+	status?: number;
+	retryDelay?: number; // 下次重试前的等待（毫秒），不再重试时为空
+}
+
+export const DEFAULT_RETRY_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+export const DEFAULT_RETRY_ERROR_CODES = [
+	'ECONNRESET',
+	'ECONNABORTED',
+	'ECONNREFUSED',
+	'ETIMEDOUT',
+	'EAI_AGAIN',
+	'EPIPE',
+	'TimeoutError',
+	'ERR_CONNECTION_RESET',
+	'ERR_TIMED_OUT',
+];
+
+/**
+ * 浏览器模式下的 HTTP 错误状态（page.goto 不会因状态码抛错）
+ */
+export class HttpStatusError extends Error {
+	constructor(
+		readonly status: number,
+		readonly retryAfter?: string,
+	) {
+		super(`Request failed with status code ${status}`);
+		this.name = 'HttpStatusError';
+	}
+}
+
+/**
+ * 启用重试时，把浏览器页面返回的可重试状态码转换为 HttpStatusError
+ */
+export function checkResponseStatus(
+	policy: RetryPolicy,
+	status?: number,
+	retryAfter?: string,
+): void {
+	if ((policy.maxAttempts ?? 1) <= 1 || !status) return;
+	if ((policy.retryStatusCodes ?? DEFAULT_RETRY_STATUS_CODES).includes(status)) {
+		throw new HttpStatusError(status, retryAfter);
+	}
+}
+
+interface ErrorLike {
+	message?: string;
+	code?: string;
+	name?: string;
+	status?: number;
+	retryAfter?: string;
+	response?: { status?: number; headers?: Record<string, unknown> };
+}
+
+function getStatus(e: ErrorLike): number | undefined {
+	return e.response?.status ?? e.status;
+}
+
+function getErrorCode(e: ErrorLike): string | undefined {
+	if (e.code) return e.code;
+	// puppeteer: net::ERR_CONNECTION_RESET at https://...
+	const net = e.message?.match(/net::(ERR_[A-Z_]+)/);
+	if (net) return net[1];
+	return e.name;
+}
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期）为毫秒
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+	if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+	const seconds = Number(value);
+	if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(String(value));
+	if (!isNaN(date)) return Math.max(0, date - Date.now());
+	return undefined;
+}
+
+/**
+ * 计算第 attempt 次失败后的等待时间，不可重试时返回 null
+ */
+function getRetryDelay(e: ErrorLike, attempt: number, policy: RetryPolicy): number | null {
+	const status = getStatus(e);
+	const retryable = status !== undefined
+		? (policy.retryStatusCodes ?? DEFAULT_RETRY_STATUS_CODES).includes(status)
+		: (policy.retryErrorCodes ?? DEFAULT_RETRY_ERROR_CODES).includes(getErrorCode(e) ?? '');
+	if (!retryable) return null;
+
+	const maxDelay = policy.maxDelay ?? 60000;
+	if (status === 429 || status === 503) {
+		const retryAfter = parseRetryAfter(e.response?.headers?.['retry-after'] ?? e.retryAfter);
+		if (retryAfter !== undefined) return Math.min(retryAfter, maxDelay);
+	}
+
+	const delay = (policy.baseDelay ?? 1000) * Math.pow(policy.backoffFactor ?? 2, attempt - 1);
+	return Math.min(delay, maxDelay);
+}
+
+/**
+ * 按重试策略执行 fn，每次失败都会通过 onAttempt 记录
+ */
+export async function withRetry<T>(
+	url: string,
+	fn: () => Promise<T>,
+	policy: RetryPolicy = {},
+	onAttempt?: (attempt: FetchAttempt) => void,
+): Promise<T> {
+	const maxAttempts = Math.max(1, policy.maxAttempts ?? 1);
+
+	for (let attempt = 1; ; attempt++) {
+		let error: unknown;
+		try {
+			return await fn();
+		} catch (e) {
+			error = e;
+		}
+
+		const err = (error ?? {}) as ErrorLike;
+		const delay = attempt < maxAttempts ? getRetryDelay(err, attempt, policy) : null;
+
+		onAttempt?.({
+			url,
+			attempt,
+			error: err.message ?? String(error),
+			status: getStatus(err),
+			retryDelay: delay ?? undefined,
+		});
+
+		if (delay === null) throw error;
+		await sleep(delay);
+	}
+}
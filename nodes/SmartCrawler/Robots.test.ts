@@ -0,0 +1,47 @@
+import { matchRobotsRule, parseRobotsTxt } from './Robots';
+
+const ROBOTS_TXT = `
+# 示例
+User-agent: *
+Disallow: /private/
+Allow: /private/public$
+Disallow: /*.json$
+Crawl-delay: 2
+
+User-agent: SmartCrawler
+User-agent: OtherBot
+Disallow: /
+Allow: /docs/
+`;
+
+const isAllowed = (rules: ReturnType<typeof parseRobotsTxt>, url: string) => !matchRobotsRule(rules, url)
+	|| matchRobotsRule(rules, url)!.allow;
+
+describe('Robots', () => {
+	it('没有匹配的 User-agent 分组时应使用 * 分组', () => {
+		const rules = parseRobotsTxt(ROBOTS_TXT, 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)');
+
+		expect(rules.crawlDelay).toBe(2);
+		expect(isAllowed(rules, 'https://example.com/docs/a')).toBe(true);
+		expect(isAllowed(rules, 'https://example.com/private/a')).toBe(false);
+		expect(matchRobotsRule(rules, 'https://example.com/private/a')?.pattern).toBe('/private/');
+	});
+
+	it('最长的规则优先，$ 表示路径结束，* 匹配任意字符', () => {
+		const rules = parseRobotsTxt(ROBOTS_TXT, 'Mozilla/5.0');
+
+		expect(isAllowed(rules, 'https://example.com/private/public')).toBe(true);
+		expect(isAllowed(rules, 'https://example.com/private/public/more')).toBe(false);
+		expect(isAllowed(rules, 'https://example.com/api/list.json')).toBe(false);
+		expect(isAllowed(rules, 'https://example.com/api/list.json?page=2')).toBe(true);
+	});
+
+	it('User-agent 名称出现在 UA 中时应使用该分组，连续的 User-agent 行共用规则', () => {
+		const rules = parseRobotsTxt(ROBOTS_TXT, 'Mozilla/5.0 (compatible; SmartCrawler/1.0)');
+
+		expect(rules.crawlDelay).toBeUndefined();
+		expect(isAllowed(rules, 'https://example.com/docs/intro')).toBe(true);
+		expect(isAllowed(rules, 'https://example.com/blog')).toBe(false);
+		expect(isAllowed(parseRobotsTxt(ROBOTS_TXT, 'OtherBot/2'), 'https://example.com/blog')).toBe(false);
+	});
+});
@@ -0,0 +1,157 @@
+/**
+ * Robots - robots.txt 解析与检查（RFC 9309）
+ * 按域名获取并缓存规则，遵守 Crawl-delay
+ */
+import type { FetchContext } from './Fetcher';
+import { fetchStatic } from './Fetcher';
+
+interface RobotsRule {
+	allow: boolean;
+	pattern: string;
+	regex: RegExp;
+}
+
+export interface RobotsRules {
+	rules: RobotsRule[];
+	crawlDelay?: number;   // 秒
+	unreachable?: boolean; // robots.txt 无法访问（5xx 或网络错误）时禁止抓取整个站点
+}
+
+/**
+ * 被跳过的 URL 及原因
+ */
+export interface SkippedUrl {
+	url: string;
+	reason: string;
+}
+
+/**
+ * 规则路径转正则：* 匹配任意字符，结尾的 $ 表示路径结束
+ */
+function patternToRegExp(pattern: string): RegExp {
+	const anchored = pattern.endsWith('$');
+	const source = (anchored ? pattern.slice(0, -1) : pattern)
+		.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*/g, '.*');
+	return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
+
+/**
+ * 解析 robots.txt，使用 User-agent 名称出现在 userAgent 中的最长分组，没有时使用 * 分组
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+	const ua = userAgent.toLowerCase();
+	const groups: Array<{ agents: string[]; lines: Array<[string, string]> }> = [];
+	let current: (typeof groups)[number] | undefined;
+
+	for (const raw of text.split(/\r?\n/)) {
+		const line = raw.replace(/#.*$/, '').trim();
+		const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+		if (!match) continue;
+		const key = match[1].toLowerCase();
+		const value = match[2].trim();
+
+		if (key === 'user-agent') {
+			// 连续的 User-agent 行属于同一分组
+			if (!current || current.lines.length) {
+				current = { agents: [], lines: [] };
+				groups.push(current);
+			}
+			current.agents.push(value.toLowerCase());
+		} else if (current) {
+			current.lines.push([key, value]);
+		}
+	}
+
+	let best = '';
+	for (const agent of groups.flatMap((g) => g.agents)) {
+		if (agent !== '*' && ua.includes(agent) && agent.length > best.length) best = agent;
+	}
+	const selected = groups.filter((g) => g.agents.includes(best || '*'));
+
+	const rules: RobotsRule[] = [];
+	let crawlDelay: number | undefined;
+	for (const [key, value] of selected.flatMap((g) => g.lines)) {
+		if ((key === 'allow' || key === 'disallow') && value) {
+			rules.push({ allow: key === 'allow', pattern: value, regex: patternToRegExp(value) });
+		} else if (key === 'crawl-delay' && !isNaN(parseFloat(value))) {
+			crawlDelay = parseFloat(value);
+		}
+	}
+	return { rules, crawlDelay };
+}
+
+/**
+ * url 匹配的规则：最长的规则优先，长度相同时 Allow 优先；没有匹配时返回 undefined（允许）
+ */
+export function matchRobotsRule(rules: RobotsRules, url: string): RobotsRule | undefined {
+	const { pathname, search } = new URL(url);
+	const path = pathname + search;
+	let matched: RobotsRule | undefined;
+	for (const rule of rules.rules) {
+		if (!rule.regex.test(path)) continue;
+		if (!matched || rule.pattern.length > matched.pattern.length
+			|| (rule.pattern.length === matched.pattern.length && rule.allow)) {
+			matched = rule;
+		}
+	}
+	return matched;
+}
+
+function getStatus(error: unknown): number | undefined {
+	const e = error as { status?: number; response?: { status?: number } };
+	return e.response?.status ?? e.status;
+}
+
+/**
+ * 按域名缓存 robots.txt 规则，可在多次 crawl 间共享
+ */
+export class RobotsChecker {
+	private readonly cache = new Map<string, Promise<RobotsRules>>();
+
+	/**
+	 * 获取 url 所在站点的规则，首次获取时按 Crawl-delay 设置该域名的请求间隔
+	 * robots.txt 返回 4xx 时视为没有限制
+	 */
+	getRules(url: string, ctx: FetchContext): Promise<RobotsRules> {
+		const { origin } = new URL(url);
+		let rules = this.cache.get(origin);
+		if (!rules) {
+			// robots.txt 请求失败不重试，也不计入请求失败记录
+			rules = fetchStatic(`${origin}/robots.txt`, { ...ctx, retry: {}, onAttempt: () => {} })
+				.then(
+					(text) => parseRobotsTxt(typeof text === 'string' ? text : '', ctx.userAgent),
+					(e): RobotsRules => {
+						const status = getStatus(e);
+						return status && status >= 400 && status < 500
+							? { rules: [] }
+							: { rules: [], unreachable: true };
+					},
+				)
+				.then((parsed) => {
+					if (parsed.crawlDelay) ctx.limiter.setMinDelay(url, parsed.crawlDelay * 1000);
+					return parsed;
+				});
+			this.cache.set(origin, rules);
+		}
+		return rules;
+	}
+
+	/**
+	 * url 被 robots.txt 禁止时返回原因，允许时返回 null
+	 */
+	async check(url: string, ctx: FetchContext): Promise<string | null> {
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			return null;
+		}
+		if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+		const rules = await this.getRules(url, ctx);
+		if (rules.unreachable) return `robots.txt 无法访问，禁止抓取 ${parsed.origin}`;
+		const rule = matchRobotsRule(rules, url);
+		return rule && !rule.allow ? `robots.txt 禁止抓取 ${url}（Disallow: ${rule.pattern}）` : null;
+	}
+}
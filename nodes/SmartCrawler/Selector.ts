@@ -0,0 +1,124 @@
+/**
+ * Selector - CSS / XPath 选择器
+ * XPath 在 jsdom 中求值，再按节点在文档树中的位置映射回 cheerio 节点
+ */
+import type { AnyNode, ChildNode } from 'domhandler';
+import * as cheerio from 'cheerio';
+import { JSDOM } from 'jsdom';
+
+export type SelectorType = 'css' | 'xpath';
+
+interface LoadedDocument {
+	html: string;
+	$: cheerio.CheerioAPI;
+	dom?: JSDOM; // 首次使用 XPath 时才解析
+}
+
+/**
+ * 通过 loadHtml 加载的文档，键为 cheerio 根节点
+ */
+const documents = new WeakMap<AnyNode, LoadedDocument>();
+
+/**
+ * 加载 HTML，返回的文档支持 XPath 选择器
+ */
+export function loadHtml(html: string): cheerio.CheerioAPI {
+	const $ = cheerio.load(html);
+	documents.set($.root()[0], { html, $ });
+	return $;
+}
+
+function getRoot(node: AnyNode): AnyNode {
+	let root = node;
+	while (root.parent) root = root.parent;
+	return root;
+}
+
+/**
+ * 节点从根节点出发的子节点下标路径（cheerio 和 jsdom 都用 parse5 解析，树结构一致）
+ */
+function getCheerioPath(node: AnyNode): number[] {
+	const path: number[] = [];
+	for (let current = node; current.parent; current = current.parent) {
+		path.unshift(current.parent.children.indexOf(current as ChildNode));
+	}
+	return path;
+}
+
+function getDomPath(node: Node): number[] {
+	const path: number[] = [];
+	for (let current = node; current.parentNode; current = current.parentNode) {
+		path.unshift(Array.prototype.indexOf.call(current.parentNode.childNodes, current));
+	}
+	return path;
+}
+
+function followCheerioPath(root: AnyNode, path: number[]): AnyNode | undefined {
+	let node: AnyNode | undefined = root;
+	for (const index of path) {
+		node = node && 'children' in node ? node.children[index] : undefined;
+	}
+	return node;
+}
+
+function followDomPath(root: Node, path: number[]): Node | undefined {
+	let node: Node | undefined = root;
+	for (const index of path) node = node?.childNodes[index];
+	return node;
+}
+
+/**
+ * 以 scope 中的每个节点为上下文执行 XPath，相对路径（如 .//a、span/text()）相对于该节点
+ */
+function selectXPath(scope: cheerio.Cheerio<AnyNode>, expression: string): cheerio.Cheerio<AnyNode> {
+	const nodes = scope.toArray();
+	if (nodes.length === 0) return scope;
+
+	const root = getRoot(nodes[0]);
+	const doc = documents.get(root);
+	if (!doc) throw new Error('XPath 选择器只能用于通过 loadHtml 加载的文档');
+	doc.dom ??= new JSDOM(doc.html);
+	const { document, XPathResult } = doc.dom.window;
+
+	const matched = new Set<AnyNode>();
+	for (const node of nodes) {
+		const context = followDomPath(document, getCheerioPath(node));
+		if (!context) continue;
+
+		let snapshot: XPathResult | undefined;
+		let reason = '';
+		try {
+			snapshot = document.evaluate(expression, context, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+		} catch (e) {
+			reason = e instanceof Error && e.message ? `: ${e.message}` : '';
+		}
+		if (!snapshot) throw new Error(`无效的 XPath 表达式 "${expression}"${reason}`);
+
+		for (let i = 0; i < snapshot.snapshotLength; i++) {
+			const item = snapshot.snapshotItem(i);
+			// 只支持元素和文本节点，属性值请用提取类型 attribute 获取
+			if (!item || (item.nodeType !== 1 && item.nodeType !== 3)) continue;
+			const match = followCheerioPath(root, getDomPath(item));
+			if (match) matched.add(match);
+		}
+	}
+	return doc.$([...matched]);
+}
+
+/**
+ * 在 scope 内查找匹配选择器的节点
+ */
+export function select(
+	scope: cheerio.Cheerio<AnyNode>,
+	selector: string,
+	type: SelectorType = 'css',
+): cheerio.Cheerio<AnyNode> {
+	return type === 'xpath' ? selectXPath(scope, selector) : scope.find(selector);
+}
+
+/**
+ * puppeteer 使用的选择器，XPath 加 xpath/ 前缀
+ */
+export function toPageSelector(selector: string, type: SelectorType = 'css'): string {
+	return type === 'xpath' ? `xpath/${selector}` : selector;
+}
@@ -0,0 +1,43 @@
+import * as cheerio from 'cheerio';
+
+import { canonicalizeUrl, createUrlFilter, extractPageContent } from './SiteCrawl';
+
+const START_URL = 'https://docs.example.com/guide/';
+
+describe('SiteCrawl', () => {
+	it('规范化应去掉片段和跟踪参数并排序查询参数，非 http 链接返回 null', () => {
+		expect(canonicalizeUrl('https://Docs.Example.com:443/a?b=2&utm_source=x&a=1#top'))
+			.toBe('https://docs.example.com/a?a=1&b=2');
+		expect(canonicalizeUrl('https://docs.example.com/a?#x')).toBe('https://docs.example.com/a');
+		expect(canonicalizeUrl('mailto:help@example.com')).toBeNull();
+		expect(canonicalizeUrl('不是链接')).toBeNull();
+	});
+
+	it('glob 模式以 / 开头时匹配路径，* 不跨越 /', () => {
+		const allowed = createUrlFilter({ include: ['/guide/**'], exclude: ['/guide/*/draft'] }, START_URL);
+
+		expect(allowed('https://docs.example.com/guide/install')).toBe(true);
+		expect(allowed('https://docs.example.com/guide/a/b?page=2')).toBe(true);
+		expect(allowed('https://docs.example.com/guide/a/draft')).toBe(false);
+		expect(allowed('https://docs.example.com/guide/a/b/draft')).toBe(true);
+		expect(allowed('https://docs.example.com/blog/post')).toBe(false);
+	});
+
+	it('应只跟随同域的网页链接，正则模式在完整 URL 中搜索', () => {
+		const allowed = createUrlFilter({ exclude: ['[?&]lang='], patternType: 'regex' }, START_URL);
+
+		expect(allowed('https://docs.example.com/api')).toBe(true);
+		expect(allowed('https://docs.example.com/api?lang=en')).toBe(false);
+		expect(allowed('https://www.example.com/api')).toBe(false);
+		expect(allowed('https://docs.example.com/files/manual.PDF')).toBe(false);
+		expect(() => createUrlFilter({ include: ['(unclosed'], patternType: 'regex' }, START_URL))
+			.toThrow('无效的 URL 正则 "(unclosed"');
+	});
+
+	it('默认页面内容应包含标题、描述和去掉脚本的正文', () => {
+		const $ = cheerio.load(`<html><head><title> 安装 </title><meta name="description" content="安装指南"></head>
+			<body><h1>安装</h1><script>var x = 1;</script><p>运行   npm install</p></body></html>`);
+
+		expect(extractPageContent($)).toEqual({ title: '安装', description: '安装指南', text: '安装 运行 npm install' });
+	});
+});
@@ -0,0 +1,131 @@
+/**
+ * SiteCrawl - 整站抓取
+ * URL 规范化去重、同域和包含/排除模式过滤、默认的页面内容提取
+ */
+import type { CheerioAPI } from 'cheerio';
+
+export type UrlPatternType = 'glob' | 'regex';
+
+export interface UrlFilterConfig {
+	include?: string[];     // 只抓取匹配任一模式的 URL，为空时不限制
+	exclude?: string[];     // 不抓取匹配任一模式的 URL
+	patternType?: UrlPatternType; // 模式语法，默认 glob
+}
+
+export interface SiteCrawlConfig extends UrlFilterConfig {
+	maxDepth?: number;      // 最大链接深度，起始页为 0，默认 2
+	maxPages?: number;      // 最多抓取页面数，默认 50
+	linkSelector?: string;  // 只从匹配的元素中查找链接（CSS 选择器），默认页面中所有链接
+}
+
+export const DEFAULT_SITE_MAX_DEPTH = 2;
+export const DEFAULT_SITE_MAX_PAGES = 50;
+export const DEFAULT_LINK_SELECTOR = 'a[href], [data-href], [data-url], [onclick]';
+
+/** 规范化时去掉的跟踪参数 */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|spm)$/;
+/** 不是网页的资源链接不跟随 */
+const NON_HTML_PATH = /\.(pdf|zip|rar|gz|7z|exe|dmg|apk|jpe?g|png|gif|webp|svg|ico|mp3|mp4|avi|mov|webm|css|js|woff2?|ttf)$/i;
+
+const BLOCK_TAGS = 'p, div, br, li, dt, dd, tr, td, th, h1, h2, h3, h4, h5, h6, pre, blockquote, section, article';
+
+/**
+ * 规范化 URL 用于去重：去掉 # 片段和跟踪参数，查询参数排序；不是 http(s) 链接时返回 null
+ */
+export function canonicalizeUrl(url: string): string | null {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return null;
+	}
+	if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+	parsed.hash = '';
+	for (const key of [...parsed.searchParams.keys()]) {
+		if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+	}
+	parsed.searchParams.sort();
+	return parsed.href;
+}
+
+/**
+ * glob 模式转正则：* 不跨越 /，** 匹配任意字符，? 匹配单个字符
+ */
+function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*\*|\*|\?/g, (m) => (m === '**' ? '.*' : m === '*' ? '[^/]*' : '.'));
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * 编译 URL 模式；以 / 开头的 glob 匹配路径和查询参数，其余 glob 匹配完整 URL，正则在完整 URL 中搜索
+ */
+function compilePattern(pattern: string, type: UrlPatternType): (url: URL) => boolean {
+	if (type === 'glob') {
+		const re = globToRegExp(pattern);
+		return pattern.startsWith('/')
+			? (url) => re.test(url.pathname + url.search)
+			: (url) => re.test(url.href);
+	}
+
+	let re: RegExp | undefined;
+	let reason = '';
+	try {
+		re = new RegExp(pattern);
+	} catch (e) {
+		reason = e instanceof Error ? e.message : String(e);
+	}
+	if (!re) throw new Error(`无效的 URL 正则 "${pattern}": ${reason}`);
+	return (url) => re!.test(url.href);
+}
+
+/**
+ * URL 是否匹配任一模式，模式语法同包含/排除 URL
+ */
+export function createUrlMatcher(patterns: string[], type: UrlPatternType = 'glob'): (url: string) => boolean {
+	const matchers = patterns.map((p) => compilePattern(p, type));
+	return (url) => {
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			return false;
+		}
+		return matchers.some((match) => match(parsed));
+	};
+}
+
+/**
+ * URL 是否应抓取：不是资源文件、匹配包含模式且不匹配排除模式
+ * @param sameHostAs 指定时只允许与该 URL 同域的链接
+ */
+export function createUrlFilter(config: UrlFilterConfig, sameHostAs?: string): (url: string) => boolean {
+	const type = config.patternType ?? 'glob';
+	const include = (config.include ?? []).map((p) => compilePattern(p, type));
+	const exclude = (config.exclude ?? []).map((p) => compilePattern(p, type));
+	const host = sameHostAs && new URL(sameHostAs).hostname;
+
+	return (url) => {
+		const parsed = new URL(url);
+		if ((host && parsed.hostname !== host) || NON_HTML_PATH.test(parsed.pathname)) return false;
+		if (include.length && !include.some((match) => match(parsed))) return false;
+		return !exclude.some((match) => match(parsed));
+	};
+}
+
+/**
+ * 未配置字段时每个页面输出的内容：标题、描述和正文文本
+ */
+export function extractPageContent($: CheerioAPI): Record<string, string | null> {
+	const body = $('body').clone();
+	body.find('script, style, noscript, template').remove();
+	// 块级元素之间补空格，避免相邻段落的文字连在一起
+	body.find(BLOCK_TAGS).before(' ').after(' ');
+	return {
+		title: $('title').first().text().trim() || null,
+		description: $('meta[name="description"]').attr('content')?.trim() || null,
+		text: body.text().replace(/\s+/g, ' ').trim() || null,
+	};
+}
@@ -0,0 +1,69 @@
+import { gzipSync } from 'zlib';
+import axios from 'axios';
+
+import type { FetchContext } from './Fetcher';
+import { HostRateLimiter } from './RateLimiter';
+import { fetchSitemapUrls, parseSitemap } from './Sitemap';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const urlset = (entries: Array<[string, string?]>) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+	${entries.map(([loc, lastmod]) => `<url><loc>${loc}</loc>${lastmod ? `<lastmod>${lastmod}</lastmod>` : ''}</url>`).join('\n')}
+</urlset>`;
+
+const ctx: FetchContext = {
+	auth: {},
+	userAgent: 'test',
+	browser: null,
+	limiter: new HostRateLimiter(),
+	retry: {},
+	onAttempt: () => {},
+};
+
+describe('Sitemap', () => {
+	it('应解析 urlset 和 sitemapindex', () => {
+		expect(parseSitemap(urlset([['https://example.com/a', '2024-05-01'], ['https://example.com/b']]))).toEqual({
+			urls: [{ loc: 'https://example.com/a', lastmod: '2024-05-01' }, { loc: 'https://example.com/b', lastmod: undefined }],
+			sitemaps: [],
+		});
+		expect(parseSitemap(`<sitemapindex><sitemap><loc>https://example.com/s1.xml</loc></sitemap></sitemapindex>`).sitemaps)
+			.toEqual([{ loc: 'https://example.com/s1.xml', lastmod: undefined }]);
+	});
+
+	it('应读取 sitemap 索引和 gzip 压缩的子 sitemap，按模式和 lastmod 过滤并去重', async () => {
+		const files: Record<string, string | Buffer> = {
+			'https://example.com/sitemap.xml': `<sitemapindex>
+				<sitemap><loc>https://example.com/posts.xml.gz</loc><lastmod>2024-06-01</lastmod></sitemap>
+				<sitemap><loc>https://example.com/old.xml</loc><lastmod>2020-01-01</lastmod></sitemap>
+			</sitemapindex>`,
+			'https://example.com/posts.xml.gz': gzipSync(urlset([
+				['https://example.com/posts/1', '2024-05-20'],
+				['https://example.com/posts/2', '2023-12-31'],
+				['https://example.com/posts/3'],
+				['https://example.com/posts/1#comments', '2024-05-20'],
+				['https://example.com/tags/news', '2024-05-20'],
+			])),
+		};
+		mockedAxios.get.mockImplementation(async (url: string) => ({ data: files[url], status: 200 }));
+
+		const urls = await fetchSitemapUrls('https://example.com/sitemap.xml', {
+			include: ['/posts/**'],
+			lastmodAfter: '2024-01-01',
+		}, ctx);
+
+		expect(urls).toEqual([
+			{ loc: 'https://example.com/posts/1', lastmod: '2024-05-20' },
+			{ loc: 'https://example.com/posts/3', lastmod: undefined },
+		]);
+		expect(mockedAxios.get.mock.calls.map(([url]) => url)).toEqual([
+			'https://example.com/sitemap.xml',
+			'https://example.com/posts.xml.gz',
+		]);
+		expect(mockedAxios.get).toHaveBeenCalledWith(
+			'https://example.com/sitemap.xml',
+			expect.objectContaining({ responseType: 'arraybuffer' }),
+		);
+	});
+});
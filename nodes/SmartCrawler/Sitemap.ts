@@ -0,0 +1,84 @@
+/**
+ * Sitemap - 读取 sitemap.xml 和 sitemap 索引（支持 gzip 压缩）
+ * 按 URL 模式和 lastmod 过滤页面
+ */
+import { gunzipSync } from 'zlib';
+import * as cheerio from 'cheerio';
+import type { FetchContext } from './Fetcher';
+import { fetchStatic } from './Fetcher';
+import type { UrlFilterConfig } from './SiteCrawl';
+import { DEFAULT_SITE_MAX_PAGES, canonicalizeUrl, createUrlFilter } from './SiteCrawl';
+
+export interface SitemapConfig extends UrlFilterConfig {
+	maxPages?: number;      // 最多抓取页面数，默认 50
+	lastmodAfter?: string;  // 只保留 lastmod 不早于该时间的页面，没有 lastmod 的页面保留
+}
+
+export interface SitemapEntry {
+	loc: string;
+	lastmod?: string;
+}
+
+/**
+ * 解析 sitemap：urlset 中的页面和 sitemapindex 中的子 sitemap
+ */
+export function parseSitemap(xml: string): { urls: SitemapEntry[]; sitemaps: SitemapEntry[] } {
+	const $ = cheerio.load(xml, { xml: true });
+	const entries = (tag: string): SitemapEntry[] => $(tag).toArray()
+		.map((el) => ({
+			loc: $(el).children('loc').text().trim(),
+			lastmod: $(el).children('lastmod').text().trim() || undefined,
+		}))
+		.filter((entry) => entry.loc);
+	return { urls: entries('url'), sitemaps: entries('sitemap') };
+}
+
+/**
+ * 响应内容转为文本，gzip 压缩的内容（按文件头识别）先解压
+ */
+function decodeSitemap(content: unknown): string {
+	if (typeof content === 'string') return content;
+	const buffer = Buffer.from(content as ArrayBuffer);
+	return (buffer[0] === 0x1f && buffer[1] === 0x8b ? gunzipSync(buffer) : buffer).toString('utf8');
+}
+
+/**
+ * 从 sitemap（或 sitemap 索引）收集页面 URL，依次读取子 sitemap 直到达到最大页面数
+ * lastmod 早于 lastmodAfter 的子 sitemap 不再读取
+ */
+export async function fetchSitemapUrls(url: string, config: SitemapConfig, ctx: FetchContext): Promise<SitemapEntry[]> {
+	const limit = config.maxPages || DEFAULT_SITE_MAX_PAGES;
+	const after = config.lastmodAfter ? Date.parse(config.lastmodAfter) : NaN;
+	const isRecent = (entry: SitemapEntry) => {
+		const time = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+		return isNaN(after) || isNaN(time) || time >= after;
+	};
+	const isAllowed = createUrlFilter(config);
+
+	const queue = [url];
+	const seenSitemaps = new Set(queue);
+	const seenUrls = new Set<string>();
+	const result: SitemapEntry[] = [];
+
+	while (queue.length && result.length < limit) {
+		const sitemapUrl = queue.shift()!;
+		const content = await fetchStatic(sitemapUrl, ctx, { binary: true });
+		const { urls, sitemaps } = parseSitemap(decodeSitemap(content));
+
+		for (const sitemap of sitemaps) {
+			const loc = canonicalizeUrl(sitemap.loc);
+			if (!loc || seenSitemaps.has(loc) || !isRecent(sitemap)) continue;
+			seenSitemaps.add(loc);
+			queue.push(loc);
+		}
+
+		for (const entry of urls) {
+			const loc = canonicalizeUrl(entry.loc);
+			if (!loc || seenUrls.has(loc) || !isRecent(entry) || !isAllowed(loc)) continue;
+			seenUrls.add(loc);
+			result.push({ loc, lastmod: entry.lastmod });
+		}
+	}
+
+	return result.slice(0, limit);
+}
@@ -1,4 +1,5 @@
-import type { IExecuteFunctions } from 'n8n-workflow';
+import type { ICredentialTestFunctions, IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { sleep } from 'n8n-workflow';
  
 import axios from 'axios';
 import { SmartCrawler } from './SmartCrawler.node';
@@ -6,6 +7,52 @@ import { SmartCrawler } from './SmartCrawler.node';
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+let mockPageUrl = '';
+type MockPageListener = (event: unknown) => void;
+const mockPageListeners: Record<string, MockPageListener | undefined> = {};
+/** 模拟页面收到网络响应 */
+const mockRespond = (url: string, data: unknown, resourceType = 'xhr') => mockPageListeners.response?.({
+	url: () => url,
+	status: () => 200,
+	request: () => ({ resourceType: () => resourceType }),
+	text: async () => JSON.stringify(data),
+});
+const mockElement = {
+	click: jest.fn(async () => {}),
+	type: jest.fn(async () => {}),
+};
+const mockMainFrame = {};
+const mockPage = {
+	goto: jest.fn(async (url: string) => {
+		mockPageUrl = url;
+	}),
+	waitForSelector: jest.fn<Promise<typeof mockElement>, [string, { timeout: number }?]>(async () => mockElement),
+	waitForFunction: jest.fn<Promise<boolean>, [string, { timeout: number }?]>(async () => true),
+	waitForNavigation: jest.fn(async () => null),
+	$$: jest.fn<Promise<unknown[]>, [string]>(async () => []),
+	on: jest.fn<void, [string, MockPageListener]>((event, listener) => { mockPageListeners[event] = listener; }),
+	off: jest.fn<void, [string, MockPageListener]>((event) => { mockPageListeners[event] = undefined; }),
+	setRequestInterception: jest.fn(async () => {}),
+	evaluate: jest.fn<Promise<unknown>, [string]>(async () => 0),
+	content: jest.fn(),
+	url: jest.fn(() => mockPageUrl),
+	screenshot: jest.fn(async () => Buffer.from('png')),
+	pdf: jest.fn(async () => Buffer.from('pdf')),
+	setCookie: jest.fn(async () => {}),
+	authenticate: jest.fn(async () => {}),
+	isClosed: jest.fn(() => false),
+	mainFrame: jest.fn(() => mockMainFrame),
+};
+const mockBrowser = {
+	newPage: jest.fn(async () => mockPage),
+	close: jest.fn(async () => {}),
+};
+const mockLaunch = jest.fn<Promise<typeof mockBrowser>, [{ args?: string[] }?]>(async () => mockBrowser);
+jest.mock('puppeteer', () => ({
+	__esModule: true,
+	default: { launch: (options: { args?: string[] }) => mockLaunch(options) },
+}));
+
 /** 模拟的列表页 HTML */
 const MOCK_LIST_HTML = `
 <!DOCTYPE html>
@@ -85,12 +132,26 @@ function createMockExecuteFunctions(params: {
 	}>;
 	continueOnFail?: boolean;
 	inputItemCount?: number;
+	extraParams?: Record<string, unknown>;
+	credentials?: Record<string, unknown>;
+	staticData?: IDataObject;
 }): IExecuteFunctions {
-	const { url, cookie = '', listSelector, fields, continueOnFail = false, inputItemCount = 1 } = params;
+	const {
+		url,
+		cookie = '',
+		listSelector,
+		fields,
+		continueOnFail = false,
+		inputItemCount = 1,
+		extraParams = {},
+		credentials,
+		staticData = {},
+	} = params;
 	const mockNode = { name: 'Smart Crawler', type: 'n8n-nodes-base.smartCrawler' };
 
 	return {
 		getNodeParameter: jest.fn((param: string, _itemIndex: number, fallback?: unknown) => {
+			if (param in extraParams) return extraParams[param];
 			if (param === 'url') return url;
 			if (param === 'cookie') return cookie;
 			if (param === 'listSelector') return listSelector;
@@ -101,7 +162,13 @@ function createMockExecuteFunctions(params: {
 			return Array.from({ length: inputItemCount }, (_, i) => ({ json: { index: i }, pairedItem: { item: i } }));
 		}),
 		continueOnFail: jest.fn(() => continueOnFail),
+		getCredentials: jest.fn(async () => credentials),
 		getNode: jest.fn(() => mockNode),
+		getWorkflowStaticData: jest.fn(() => staticData),
+		helpers: {
+			prepareBinaryData: jest.fn(async (data: Buffer, fileName?: string, mimeType?: string) =>
+				({ data: data.toString('base64'), fileName, mimeType })),
+		},
 	} as unknown as IExecuteFunctions;
 }
 
@@ -297,6 +364,2057 @@ describe('SmartCrawler', () => {
 		});
 	});
 
+	describe('分页', () => {
+		const pageHtml = (titles: string[], next?: string) => `
+			<ul>${titles.map((t) => `<li class="item"><span class="title">${t}</span></li>`).join('')}</ul>
+			${next ? `<a class="next" href="${next}">下一页</a>` : ''}
+		`;
+
+		it('应沿下一页选择器翻页并合并结果，附带来源页信息', async () => {
+			mockedAxios.get
+				.mockResolvedValueOnce({ data: pageHtml(['A', 'B'], '/list?p=2'), status: 200 })
+				.mockResolvedValueOnce({ data: pageHtml(['C']), status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: { paginationMode: 'nextSelector', nextSelector: 'a.next' },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+			expect(mockedAxios.get.mock.calls[1][0]).toBe('https://example.com/list?p=2');
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ title: 'A', _pageUrl: 'https://example.com/list', _pageNumber: 1 },
+				{ title: 'B', _pageUrl: 'https://example.com/list', _pageNumber: 1 },
+				{ title: 'C', _pageUrl: 'https://example.com/list?p=2', _pageNumber: 2 },
+			]);
+		});
+
+		it('XPath 选择器类型下应按 XPath 查找下一页链接', async () => {
+			mockedAxios.get
+				.mockResolvedValueOnce({ data: pageHtml(['A'], '/list?p=2'), status: 200 })
+				.mockResolvedValueOnce({ data: pageHtml(['B']), status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '//li[@class="item"]',
+				fields: [{ name: 'title', selector: './/span', type: 'text' }],
+				extraParams: {
+					selectorType: 'xpath',
+					paginationMode: 'nextSelector',
+					nextSelector: '//a[text()="下一页"]',
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(mockedAxios.get.mock.calls[1][0]).toBe('https://example.com/list?p=2');
+			expect(result[0].map((r) => r.json.title)).toEqual(['A', 'B']);
+		});
+
+		it('URL 模板模式应按页码范围抓取，并在空页时停止', async () => {
+			mockedAxios.get
+				.mockResolvedValueOnce({ data: pageHtml(['A']), status: 200 })
+				.mockResolvedValueOnce({ data: pageHtml([]), status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: { paginationMode: 'urlTemplate', pageUrlTemplate: '?page={n}', endPage: 5 },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(mockedAxios.get.mock.calls.map((c) => c[0])).toEqual([
+				'https://example.com/list?page=1',
+				'https://example.com/list?page=2',
+			]);
+			expect(result[0]).toHaveLength(1);
+		});
+
+		it('Offset 模式应受最大页数限制', async () => {
+			mockedAxios.get.mockResolvedValue({ data: pageHtml(['A']), status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/api?q=x',
+				listSelector: '.item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: { paginationMode: 'offset', pageSize: 10, maxPages: 3 },
+			});
+
+			await crawler.execute.call(mockContext);
+
+			expect(mockedAxios.get.mock.calls.map((c) => c[0])).toEqual([
+				'https://example.com/api?q=x&offset=0&limit=10',
+				'https://example.com/api?q=x&offset=10&limit=10',
+				'https://example.com/api?q=x&offset=20&limit=10',
+			]);
+		});
+	});
+
+	describe('并发与限速', () => {
+		const jumpFields = {
+			field: [
+				{ name: 'title', selector: '.title', fieldType: 'normal', type: 'text' },
+				{ name: 'detail', selector: '.link', fieldType: 'jump', targetSelector: '.body' },
+			],
+		};
+
+		it('并发抓取跳转页时输出顺序应与列表一致', async () => {
+			let inFlight = 0;
+			let maxInFlight = 0;
+			mockedAxios.get.mockImplementation(async (url: string) => {
+				if (url.endsWith('/list')) return { data: MOCK_LIST_HTML, status: 200 };
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				// 越靠前的详情页返回越慢
+				const id = Number(url.split('/').pop());
+				await sleep((4 - id) * 10);
+				inFlight--;
+				return { data: `<div class="body">详情${id}</div>`, status: 200 };
+			});
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { fields: jumpFields, requestOptions: { concurrency: 3 } },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(maxInFlight).toBe(3);
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ title: '文章一', detail: '详情1' },
+				{ title: '文章二', detail: '详情2' },
+				{ title: '文章三', detail: '详情3' },
+			]);
+		});
+
+		it('同一域名的请求应遵守最小间隔', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => ({
+				data: url.endsWith('/list') ? MOCK_LIST_HTML : '<div class="body">详情</div>',
+				status: 200,
+			}));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { fields: jumpFields, requestOptions: { concurrency: 3, minDelay: 40 } },
+			});
+
+			const start = Date.now();
+			await crawler.execute.call(mockContext);
+
+			// 列表页 + 3 个详情页，至少间隔 3 次
+			expect(mockedAxios.get).toHaveBeenCalledTimes(4);
+			expect(Date.now() - start).toBeGreaterThanOrEqual(115);
+		});
+	});
+
+	describe('重试', () => {
+		const httpError = (status: number, headers: Record<string, string> = {}) =>
+			Object.assign(new Error(`Request failed with status code ${status}`), {
+				response: { status, headers },
+			});
+
+		it('可重试的状态码应按退避策略重试直到成功', async () => {
+			mockedAxios.get
+				.mockRejectedValueOnce(httpError(502))
+				.mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+				.mockResolvedValueOnce({ data: MOCK_LIST_HTML, status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: { requestOptions: { retryMaxAttempts: 3, retryBaseDelay: 1 } },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+			expect(result[0]).toHaveLength(3);
+			expect(result[0].map((r) => r.json._attempts)).toEqual([3, 3, 3]);
+		});
+
+		it('跳转页重试后成功时只在所属条目上附带尝试次数', async () => {
+			let failed = false;
+			mockedAxios.get.mockImplementation(async (url: string) => {
+				if (url.endsWith('/list')) return { data: MOCK_LIST_HTML, status: 200 };
+				if (url.endsWith('/detail/2') && !failed) {
+					failed = true;
+					throw httpError(503);
+				}
+				return { data: '<div class="body">详情</div>', status: 200 };
+			});
+
+			const result = await new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: {
+					requestOptions: { retryMaxAttempts: 3, retryBaseDelay: 1 },
+					fields: {
+						field: [{ name: 'detail', selector: '.link', fieldType: 'jump', targetSelector: '.body' }],
+					},
+				},
+			}));
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ detail: '详情' },
+				{ detail: '详情', _attempts: 2 },
+				{ detail: '详情' },
+			]);
+		});
+
+		it('429 响应应以 Retry-After 为准', async () => {
+			mockedAxios.get
+				.mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }))
+				.mockResolvedValueOnce({ data: MOCK_LIST_HTML, status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: { requestOptions: { retryMaxAttempts: 2, retryBaseDelay: 60000 } },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+			expect(result[0]).toHaveLength(3);
+		});
+
+		it('不可重试的错误不应重试，失败时输出每次尝试记录', async () => {
+			mockedAxios.get
+				.mockRejectedValueOnce(httpError(503))
+				.mockRejectedValueOnce(httpError(404));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				continueOnFail: true,
+				extraParams: { requestOptions: { retryMaxAttempts: 5, retryBaseDelay: 1 } },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+			expect(result[0][0].json).toEqual({
+				error: 'Request failed with status code 404',
+				attempts: [
+					expect.objectContaining({ attempt: 1, status: 503, retryDelay: 1 }),
+					expect.objectContaining({ attempt: 2, status: 404, retryDelay: undefined }),
+				],
+			});
+		});
+	});
+
+	describe('请求配置', () => {
+		const param = (name: string, value: string) => ({ parameter: [{ name, value }] });
+
+		it('POST 表单请求应编码请求体并附带请求头和查询参数', async () => {
+			mockedAxios.request.mockResolvedValue({ data: MOCK_LIST_HTML, status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/search',
+				listSelector: '.item-list .item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: {
+					requestMethod: 'POST',
+					headers: param('X-Requested-With', 'XMLHttpRequest'),
+					queryParameters: param('page', '2'),
+					bodyType: 'form',
+					bodyParameters: param('q', 'n8n 爬虫'),
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0]).toHaveLength(3);
+			expect(mockedAxios.get).not.toHaveBeenCalled();
+			expect(mockedAxios.request).toHaveBeenCalledWith(
+				expect.objectContaining({
+					url: 'https://example.com/search?page=2',
+					method: 'POST',
+					data: 'q=n8n+%E7%88%AC%E8%99%AB',
+					headers: expect.objectContaining({
+						'Content-Type': 'application/x-www-form-urlencoded',
+						'X-Requested-With': 'XMLHttpRequest',
+					}),
+				}),
+			);
+		});
+
+		it('JSON 请求体应按原样发送', async () => {
+			mockedAxios.request.mockResolvedValue({ data: MOCK_LIST_HTML, status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/api/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { requestMethod: 'PUT', bodyType: 'json', jsonBody: '{"page":1}' },
+			});
+
+			await crawler.execute.call(mockContext);
+
+			expect(mockedAxios.request).toHaveBeenCalledWith(
+				expect.objectContaining({
+					method: 'PUT',
+					data: '{"page":1}',
+					headers: expect.objectContaining({ 'Content-Type': 'application/json' }),
+				}),
+			);
+		});
+
+		it('跳转页默认继承列表页请求头，可关闭继承或按字段覆盖', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => ({
+				data: url.endsWith('/list') ? MOCK_LIST_HTML : '<div class="body">详情</div>',
+				status: 200,
+			}));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: {
+					headers: param('X-Token', 'list'),
+					fields: {
+						field: [
+							{
+								name: 'inherited',
+								selector: '.link',
+								fieldType: 'jump',
+								targetSelector: '.body',
+								jumpHeaders: '{"Referer":"https://example.com/list"}',
+							},
+							{
+								name: 'own',
+								selector: '.link',
+								fieldType: 'jump',
+								targetSelector: '.body',
+								inheritHeaders: false,
+							},
+						],
+					},
+				},
+			});
+			await crawler.execute.call(mockContext);
+
+			const headersFor = (call: number) =>
+				(mockedAxios.get.mock.calls[call][1] as { headers: Record<string, string> }).headers;
+			expect(headersFor(0)['X-Token']).toBe('list');
+			expect(headersFor(1)).toMatchObject({ 'X-Token': 'list', Referer: 'https://example.com/list' });
+			expect(headersFor(2)['X-Token']).toBeUndefined();
+		});
+	});
+
+	describe('认证凭证', () => {
+		it('应把凭证中的 Cookie 和 Bearer Token 用于请求，优先于 Cookie 参数', async () => {
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				cookie: 'old=1',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: { authentication: 'smartCrawlerAuthApi' },
+				credentials: { cookie: 'sid=secret', authType: 'bearer', token: 'tk', headers: '{"X-Tenant": "a"}' },
+			});
+
+			await crawler.execute.call(mockContext);
+
+			expect(mockContext.getCredentials).toHaveBeenCalledWith('smartCrawlerAuthApi', 0);
+			expect(mockedAxios.get).toHaveBeenCalledWith(
+				'https://example.com/list',
+				expect.objectContaining({
+					headers: expect.objectContaining({
+						Cookie: 'sid=secret',
+						Authorization: 'Bearer tk',
+						'X-Tenant': 'a',
+					}),
+				}),
+			);
+		});
+
+		it('Basic 认证应同时作用于 axios 和浏览器页面', async () => {
+			const credentials = { authType: 'basic', username: 'u', password: 'p' };
+			const crawler = new SmartCrawler();
+
+			await crawler.execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { authentication: 'smartCrawlerAuthApi' },
+				credentials,
+			}));
+			expect(mockedAxios.get).toHaveBeenCalledWith(
+				'https://example.com/list',
+				expect.objectContaining({ auth: { username: 'u', password: 'p' } }),
+			);
+
+			mockPage.content.mockResolvedValue(MOCK_LIST_HTML);
+			await crawler.execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { authentication: 'smartCrawlerAuthApi', useBrowser: true },
+				credentials,
+			}));
+			expect(mockPage.authenticate).toHaveBeenCalledWith({ username: 'u', password: 'p' });
+		});
+
+		it('浏览器中认证请求头只应发送给目标网站', async () => {
+			const requests: Array<{ url: string; continue: jest.Mock }> = [];
+			mockPage.content.mockResolvedValue(MOCK_LIST_HTML);
+			mockPage.goto.mockImplementationOnce(async (url: string) => {
+				mockPageUrl = url;
+				for (const [target, resourceType] of [
+					[url, 'document'],
+					['https://example.com/api/list', 'xhr'],
+					['https://cdn.other.com/app.js', 'script'],
+				]) {
+					const request = {
+						url: target,
+						continue: jest.fn(async () => {}),
+					};
+					requests.push(request);
+					mockPageListeners.request?.({
+						url: () => target,
+						resourceType: () => resourceType,
+						isNavigationRequest: () => resourceType === 'document',
+						frame: () => mockMainFrame,
+						isInterceptResolutionHandled: () => false,
+						headers: () => ({ accept: '*/*' }),
+						continue: request.continue,
+						abort: jest.fn(async () => {}),
+					});
+				}
+			});
+
+			await new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { authentication: 'smartCrawlerAuthApi', useBrowser: true, blockResourceTypes: [] },
+				credentials: { authType: 'bearer', token: 't' },
+			}));
+
+			const withAuth = { headers: { accept: '*/*', Authorization: 'Bearer t' } };
+			expect(requests.map((request) => request.continue.mock.calls[0])).toEqual([
+				[withAuth],
+				[withAuth],
+				[],
+			]);
+		});
+
+		it('未选择凭证时不应读取凭证', async () => {
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+			});
+
+			await crawler.execute.call(mockContext);
+
+			expect(mockContext.getCredentials).not.toHaveBeenCalled();
+		});
+
+		it('凭证测试应校验其他请求头 JSON', async () => {
+			const crawler = new SmartCrawler();
+			const test = crawler.methods.credentialTest.smartCrawlerAuthApiTest;
+			const context = {} as ICredentialTestFunctions;
+
+			await expect(
+				test.call(context, { id: '1', name: 'c', type: 'smartCrawlerAuthApi', data: { headers: '{bad' } }),
+			).resolves.toMatchObject({ status: 'Error' });
+			await expect(
+				test.call(context, { id: '1', name: 'c', type: 'smartCrawlerAuthApi', data: { authType: 'bearer', token: 't' } }),
+			).resolves.toMatchObject({ status: 'OK' });
+		});
+
+		it('其他请求头不是合法的 JSON 时执行应报错', async () => {
+			await expect(new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { authentication: 'smartCrawlerAuthApi' },
+				credentials: { headers: '{bad' },
+			}))).rejects.toThrow('认证凭证的其他请求头不是合法的 JSON');
+		});
+	});
+
+	describe('代理', () => {
+		const proxyParams = { proxy: 'smartCrawlerProxyApi' };
+
+		it('静态请求应通过代理 Agent 发送，并按请求轮换代理', async () => {
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				inputItemCount: 3,
+				extraParams: proxyParams,
+				credentials: { proxyUrl: 'http://10.0.0.1:8080\nsocks5://10.0.0.2:1080', username: 'u', password: 'p' },
+			});
+
+			await crawler.execute.call(mockContext);
+
+			expect(mockContext.getCredentials).toHaveBeenCalledWith('smartCrawlerProxyApi', 0);
+			const agents = mockedAxios.get.mock.calls.map(
+				(call) => (call[1] as { httpsAgent: { proxy: URL }; proxy: boolean }),
+			);
+			expect(agents.map((a) => a.proxy)).toEqual([false, false, false]);
+			expect(agents.map((a) => a.httpsAgent.constructor.name)).toEqual([
+				'HttpsProxyAgent',
+				'SocksProxyAgent',
+				'HttpsProxyAgent',
+			]);
+			// 同一代理复用 Agent
+			expect(agents[2].httpsAgent).toBe(agents[0].httpsAgent);
+			expect(agents[0].httpsAgent.proxy.username).toBe('u');
+		});
+
+		it('浏览器模式应以 --proxy-server 启动并用代理凭据认证', async () => {
+			mockPage.content.mockResolvedValue(MOCK_LIST_HTML);
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { ...proxyParams, useBrowser: true },
+				credentials: { proxyUrl: 'http://10.0.0.1:8080', username: 'u', password: 'p' },
+			});
+
+			await crawler.execute.call(mockContext);
+
+			expect(mockLaunch.mock.calls[0][0]?.args).toContain('--proxy-server=http://10.0.0.1:8080');
+			expect(mockPage.authenticate).toHaveBeenCalledWith({ username: 'u', password: 'p' });
+		});
+
+		it('代理地址无效时应报错', async () => {
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: proxyParams,
+				credentials: { proxyUrl: 'ftp://10.0.0.1:21' },
+			});
+
+			await expect(crawler.execute.call(mockContext)).rejects.toThrow('不支持的代理协议: ftp:');
+			expect(mockedAxios.get).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('多值字段', () => {
+		const MOCK_TAGS_HTML = `
+			<div class="post">
+				<span class="tag">a</span><span class="tag">b</span><span class="tag">c</span>
+				<a class="ref" href="/ref/1">1</a><a class="ref" href="/ref/2">2</a>
+			</div>`;
+
+		it('应提取所有匹配值为数组，可连接为字符串并限制数量', async () => {
+			mockedAxios.get.mockResolvedValue({ data: MOCK_TAGS_HTML, status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.post',
+				fields: [],
+				extraParams: {
+					fields: {
+						field: [
+							{ name: 'tags', selector: '.tag', fieldType: 'normal', multiple: true },
+							{ name: 'joined', selector: '.tag', fieldType: 'normal', multiple: true, separator: ', ' },
+							{ name: 'firstTwo', selector: '.tag', fieldType: 'normal', multiple: true, maxCount: 2 },
+							{ name: 'links', selector: '.ref', fieldType: 'normal', type: 'attribute', attribute: 'href', multiple: true },
+							{ name: 'none', selector: '.missing', fieldType: 'normal', multiple: true },
+						],
+					},
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0][0].json).toEqual({
+				tags: ['a', 'b', 'c'],
+				joined: 'a, b, c',
+				firstTwo: ['a', 'b'],
+				links: ['/ref/1', '/ref/2'],
+				none: [],
+			});
+		});
+
+		it('应先逐个值后处理再连接', async () => {
+			mockedAxios.get.mockResolvedValue({
+				data: '<div class="post"><i>1</i><i>2</i><img src="a.png"><img src="b.png"></div>',
+				status: 200,
+			});
+
+			const result = await new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.post',
+				fields: [],
+				extraParams: {
+					fields: {
+						field: [
+							{
+								name: 'tags', selector: 'i', fieldType: 'normal', multiple: true, separator: ',',
+								transforms: { transform: [{ type: 'number' }] },
+							},
+							{
+								name: 'images', selector: 'img', fieldType: 'normal', type: 'attribute', attribute: 'src',
+								multiple: true, separator: ' ', transforms: { transform: [{ type: 'absoluteUrl' }] },
+							},
+						],
+					},
+				},
+			}));
+
+			expect(result[0][0].json).toEqual({
+				tags: '1,2',
+				images: 'https://example.com/a.png https://example.com/b.png',
+			});
+		});
+
+		it('多值跳转字段应跟随每个链接，返回子对象数组', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => ({
+				data: url.endsWith('/list')
+					? MOCK_TAGS_HTML
+					: `<div class="body"><h1>引用${url.split('/').pop()}</h1><i>x</i><i>y</i></div>`,
+				status: 200,
+			}));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.post',
+				fields: [],
+				extraParams: {
+					fields: {
+						field: [
+							{
+								name: 'refs',
+								selector: '.ref',
+								fieldType: 'jump',
+								multiple: true,
+								targetSelector: '.body',
+								jumpFields: {
+									field: [
+										{ name: 'title', selector: 'h1', type: 'text' },
+										{ name: 'marks', selector: 'i', type: 'text', multiple: true },
+									],
+								},
+							},
+						],
+					},
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0][0].json).toEqual({
+				refs: [
+					{ title: '引用1', marks: ['x', 'y'] },
+					{ title: '引用2', marks: ['x', 'y'] },
+				],
+			});
+			expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+		});
+	});
+
+	describe('字段后处理', () => {
+		it('应按顺序执行后处理，失败时只置空该字段并记录到 _errors', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => ({
+				data: url.endsWith('/list')
+					? '<div class="goods"><b>¥1,299.00</b><i>库存: 很多</i><a href="/goods/7">详情</a></div>'
+					: '<div class="body"><time>2024-03-05</time></div>',
+				status: 200,
+			}));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.goods',
+				fields: [],
+				extraParams: {
+					fields: {
+						field: [
+							{
+								name: 'price',
+								selector: 'b',
+								fieldType: 'normal',
+								transforms: { transform: [{ type: 'number' }] },
+							},
+							{
+								name: 'stock',
+								selector: 'i',
+								fieldType: 'normal',
+								transforms: { transform: [{ type: 'regex', pattern: '库存: (.+)' }, { type: 'integer' }] },
+							},
+							{
+								name: 'link',
+								selector: 'a',
+								fieldType: 'normal',
+								type: 'attribute',
+								attribute: 'href',
+								transforms: { transform: [{ type: 'absoluteUrl' }] },
+							},
+							{
+								name: 'detail',
+								selector: 'a',
+								fieldType: 'jump',
+								targetSelector: '.body',
+								jumpFields: {
+									field: [
+										{
+											name: 'date',
+											selector: 'time',
+											type: 'text',
+											transforms: { transform: [{ type: 'date', timezone: 'UTC' }] },
+										},
+										{
+											name: 'author',
+											selector: '.author',
+											type: 'text',
+											transforms: { transform: [{ type: 'default', value: '佚名' }] },
+										},
+									],
+								},
+							},
+						],
+					},
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0][0].json).toEqual({
+				price: 1299,
+				stock: null,
+				link: 'https://example.com/goods/7',
+				detail: { date: '2024-03-05T00:00:00.000Z', author: '佚名' },
+				_errors: { stock: '无法解析为数字: "很多"' },
+			});
+		});
+	});
+
+	describe('高级字段与多层跳转', () => {
+		it('高级字段配置应支持多层嵌套跳转', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => {
+				if (url.endsWith('/list')) return { data: MOCK_LIST_HTML, status: 200 };
+				if (url.includes('/detail/')) {
+					const id = url.split('/').pop();
+					return { data: `<div class="body"><h1>详情${id}</h1><a class="author" href="/user/${id}">作者</a></div>`, status: 200 };
+				}
+				return { data: `<div class="profile"><span class="bio">简介${url.split('/').pop()}</span></div>`, status: 200 };
+			});
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: {
+					advancedFields: JSON.stringify([
+						{
+							name: 'detail',
+							selector: '.link',
+							isJump: true,
+							jumpConfig: {
+								clickSelector: '',
+								targetSelector: '.body',
+								fields: [
+									{ name: 'heading', selector: 'h1' },
+									{
+										name: 'author',
+										selector: '.author',
+										isJump: true,
+										jumpConfig: { clickSelector: '', targetSelector: '.profile', fields: [{ name: 'bio', selector: '.bio' }] },
+									},
+								],
+							},
+						},
+					]),
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0][0].json).toEqual({
+				title: '文章一',
+				detail: { heading: '详情1', author: { bio: '简介1' } },
+			});
+			expect(mockedAxios.get).toHaveBeenCalledWith('https://example.com/user/1', expect.anything());
+		});
+
+		it('跳转 URL 模板应处理只有 data-id 的元素，最大条数应限制输出', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => ({
+				data: url.endsWith('/list')
+					? '<div class="card"><b data-id="a1">一</b></div><div class="card"><b data-id="b2">二</b></div>'
+					: `<main>模型${url.split('/').pop()}</main>`,
+				status: 200,
+			}));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.card',
+				fields: [],
+				extraParams: {
+					maxItems: 1,
+					fields: {
+						field: [{ name: 'model', selector: 'b', fieldType: 'jump', targetSelector: 'main', urlTemplate: '/model/{id}' }],
+					},
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([{ model: '模型a1' }]);
+		});
+
+		it('浏览器模式应等待配置的等待选择器', async () => {
+			mockPage.content.mockResolvedValue(MOCK_LIST_HTML);
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { useBrowser: true, waitSelector: '.item-list' },
+			});
+
+			await crawler.execute.call(mockContext);
+
+			expect(mockPage.waitForSelector).toHaveBeenCalledWith('.item-list', expect.anything());
+		});
+
+		it('高级字段配置格式错误时应抛出错误', async () => {
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { advancedFields: '{"name":"x"}' },
+			});
+
+			await expect(crawler.execute.call(mockContext)).rejects.toThrow(
+				'高级字段配置必须是包含 name 和 selector 的字段数组',
+			);
+		});
+	});
+
+	describe('XPath 选择器', () => {
+		it('字段的相对 XPath 应相对于当前列表项，可与 CSS 字段混用', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => ({
+				data: url.endsWith('/list')
+					? MOCK_LIST_HTML
+					: `<div><dl><dt>编号</dt><dd>${url.split('/').pop()}</dd></dl></div>`,
+				status: 200,
+			}));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: "//ul[@class='item-list']/li[position() < 3]",
+				fields: [],
+				extraParams: {
+					selectorType: 'xpath',
+					fields: {
+						field: [
+							{ name: 'title', selector: ".//span[@class='title']", fieldType: 'normal', selectorType: 'inherit' },
+							{ name: 'author', selector: 'span[last()]/text()', fieldType: 'normal' },
+							{ name: 'link', selector: 'a.link', fieldType: 'normal', selectorType: 'css', type: 'attribute', attribute: 'href' },
+							{
+								name: 'detail',
+								selector: 'a',
+								fieldType: 'jump',
+								targetSelector: "//dt[.='编号']/following-sibling::dd[1]",
+							},
+						],
+					},
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ title: '文章一', author: '作者A', link: '/detail/1', detail: '1' },
+				{ title: '文章二', author: '作者B', link: '/detail/2', detail: '2' },
+			]);
+		});
+
+		it('XPath 表达式无效时应报错', async () => {
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '//li[',
+				fields: [],
+				extraParams: { selectorType: 'xpath' },
+			});
+
+			await expect(crawler.execute.call(mockContext)).rejects.toThrow('无效的 XPath 表达式 "//li["');
+		});
+
+		it('浏览器模式应以 xpath/ 前缀等待 XPath 选择器', async () => {
+			mockPage.content.mockResolvedValue(MOCK_LIST_HTML);
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: "//li[@class='item']",
+				fields: [{ name: 'title', selector: "span[@class='title']", type: 'text' }],
+				extraParams: { useBrowser: true, selectorType: 'xpath' },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(mockPage.waitForSelector).toHaveBeenCalledWith("xpath///li[@class='item']", expect.anything());
+			expect(result[0].map((r) => r.json.title)).toEqual(['文章一', '文章二', '文章三']);
+		});
+	});
+
+	describe('JSON 数据', () => {
+		it('JSON 接口应按 JSONPath 提取列表和字段，支持跳转和下一页', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => {
+				if (url.endsWith('/api/list')) {
+					return {
+						data: { data: { items: [{ id: 1, name: '一', tags: ['a', 'b'] }] }, next: '/api/list?page=2' },
+						status: 200,
+					};
+				}
+				if (url.endsWith('page=2')) return { data: { data: { items: [{ id: 2, name: '二', tags: ['c'] }] } }, status: 200 };
+				return { data: { item: { desc: `详情${url.split('/').pop()}`, price: 9.5 } }, status: 200 };
+			});
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/api/list',
+				listSelector: '$.data.items[*]',
+				fields: [],
+				extraParams: {
+					paginationMode: 'nextSelector',
+					nextSelector: '$.next',
+					fields: {
+						field: [
+							{ name: 'name', selector: 'name', fieldType: 'normal' },
+							{ name: 'tags', selector: '$.tags[*]', fieldType: 'normal', multiple: true, separator: '|' },
+							{
+								name: 'detail',
+								selector: 'id',
+								fieldType: 'jump',
+								urlTemplate: '/api/items/{id}',
+								targetSelector: '$.item',
+								jumpFields: { field: [{ name: 'desc', selector: 'desc' }, { name: 'price', selector: '$.price' }] },
+							},
+						],
+					},
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{
+					name: '一',
+					tags: 'a|b',
+					detail: { desc: '详情1', price: 9.5 },
+					_pageUrl: 'https://example.com/api/list',
+					_pageNumber: 1,
+				},
+				{
+					name: '二',
+					tags: 'c',
+					detail: { desc: '详情2', price: 9.5 },
+					_pageUrl: 'https://example.com/api/list?page=2',
+					_pageNumber: 2,
+				},
+			]);
+		});
+
+		it('应把 HTML 中内嵌的 JSON 作为数据源', async () => {
+			const nextData = { props: { pageProps: { posts: [{ title: '文章A' }, { title: '文章B' }] } } };
+			mockedAxios.get.mockResolvedValue({
+				data: `<html><body><div id="__next"></div><script id="__NEXT_DATA__" type="application/json">${JSON.stringify(nextData)}</script></body></html>`,
+				status: 200,
+			});
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/blog',
+				listSelector: '$.props.pageProps.posts[*]',
+				fields: [{ name: 'title', selector: 'title', type: 'text' }],
+				extraParams: { jsonSource: 'script#__NEXT_DATA__' },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([{ title: '文章A' }, { title: '文章B' }]);
+		});
+
+		it('跳转字段应使用自己的内嵌 JSON 来源', async () => {
+			const nextData = { props: { pageProps: { post: { body: '正文A' } } } };
+			mockedAxios.get
+				.mockResolvedValueOnce({ data: '<ul><li class="item"><a class="link" href="/post/a">A</a></li></ul>', status: 200 })
+				.mockResolvedValueOnce({
+					data: `<html><body><script id="__NEXT_DATA__" type="application/json">${JSON.stringify(nextData)}</script></body></html>`,
+					status: 200,
+				});
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/blog',
+				listSelector: '.item',
+				fields: [],
+				extraParams: {
+					fields: {
+						field: [
+							{
+								name: 'detail',
+								selector: '.link',
+								fieldType: 'jump',
+								jsonSource: 'script#__NEXT_DATA__',
+								targetSelector: '$.props.pageProps.post',
+								jumpFields: { field: [{ name: 'body', selector: 'body' }] },
+							},
+						],
+					},
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([{ detail: { body: '正文A' } }]);
+		});
+	});
+
+	describe('结构化数据', () => {
+		const productPage = (id: string) => `<html><head>
+			<title>商品${id}</title>
+			<meta property="og:title" content="商品${id}">
+			<script type="application/ld+json">{"@type": "Product", "name": "商品${id}", "sku": "${id}"}</script>
+		</head><body><h1>商品${id}</h1></body></html>`;
+
+		it('结构化数据模式应每页输出一条，不需要列表选择器', async () => {
+			mockedAxios.get.mockResolvedValue({ data: productPage('1'), status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/products/1',
+				listSelector: '',
+				fields: [],
+				extraParams: { extractionMode: 'structuredData' },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([{
+				title: '商品1',
+				description: null,
+				canonical: null,
+				openGraph: { title: '商品1' },
+				schema: { Product: [{ '@type': 'Product', name: '商品1', sku: '1' }] },
+			}]);
+		});
+
+		it('跳转字段可输出目标页中指定类型的结构化数据', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => ({
+				data: url.endsWith('/list') ? MOCK_LIST_HTML : productPage(url.split('/').pop()!),
+				status: 200,
+			}));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: {
+					maxItems: 2,
+					fields: {
+						field: [
+							{ name: 'title', selector: '.title', fieldType: 'normal' },
+							{ name: 'product', selector: '.link', fieldType: 'jump', structuredData: true, structuredType: 'Product' },
+						],
+					},
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ title: '文章一', product: { '@type': 'Product', name: '商品1', sku: '1' } },
+				{ title: '文章二', product: { '@type': 'Product', name: '商品2', sku: '2' } },
+			]);
+		});
+	});
+
+	describe('自动识别', () => {
+		it('应输出推荐的列表选择器和字段，不抓取数据', async () => {
+			mockedAxios.get.mockResolvedValue({ data: MOCK_LIST_HTML, status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '',
+				fields: [],
+				extraParams: { extractionMode: 'auto' },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+			expect(result[0]).toHaveLength(1);
+			expect(result[0][0].json).toEqual({
+				listSelector: 'ul.item-list > li.item',
+				itemCount: 3,
+				score: expect.any(Number),
+				fields: [
+					{ name: 'title', selector: 'span.title', type: 'text' },
+					{ name: 'link', selector: 'a.link', type: 'attribute', attribute: 'href', transforms: [{ type: 'absoluteUrl' }] },
+				],
+				preview: { title: '文章一', link: 'https://example.com/detail/1' },
+			});
+		});
+
+		it('开启直接抓取时应使用得分最高的候选提取数据', async () => {
+			mockedAxios.get.mockResolvedValue({ data: MOCK_LIST_HTML, status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '',
+				fields: [],
+				extraParams: { extractionMode: 'auto', autoCrawl: true, maxItems: 2 },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ title: '文章一', link: 'https://example.com/detail/1' },
+				{ title: '文章二', link: 'https://example.com/detail/2' },
+			]);
+		});
+
+		it('页面没有重复结构时应报错', async () => {
+			mockedAxios.get.mockResolvedValue({ data: '<html><body><h1>空页面</h1></body></html>', status: 200 });
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/empty',
+				listSelector: '',
+				fields: [],
+				extraParams: { extractionMode: 'auto' },
+			});
+
+			await expect(crawler.execute.call(mockContext)).rejects.toThrow('未识别到重复的列表结构');
+		});
+	});
+
+	describe('整站抓取', () => {
+		const SITE_PAGES: Record<string, string> = {
+			'https://docs.example.com/': `<html><head><title>首页</title></head><body>
+				<a href="/a">A</a><a href="/b#intro">B</a><a href="/a?utm_source=nav">A 重复</a>
+				<a href="https://other.example.com/x">外站</a><a href="/manual.pdf">手册</a>
+				<span data-href="/c">C</span>
+			</body></html>`,
+			'https://docs.example.com/a': '<html><head><title>A</title></head><body><a href="/">首页</a><a href="/a/1">A1</a></body></html>',
+			'https://docs.example.com/b': '<html><head><title>B</title></head><body><a href="/a">A</a><a href="/b/1">B1</a></body></html>',
+			'https://docs.example.com/c': '<html><head><title>C</title></head><body>无链接</body></html>',
+			'https://docs.example.com/a/1': '<html><head><title>A1</title></head><body><a href="/a/1/deep">更深</a></body></html>',
+		};
+
+		beforeEach(() => {
+			mockedAxios.get.mockImplementation(async (url: string) => {
+				if (!(url in SITE_PAGES)) {
+					throw Object.assign(new Error('Request failed with status code 404'), { response: { status: 404, headers: {} } });
+				}
+				return { data: SITE_PAGES[url], status: 200 };
+			});
+		});
+
+		it('应按广度优先跟随同域链接，去重并限制深度，每页输出 URL、深度和来源页', async () => {
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://docs.example.com/',
+				listSelector: '',
+				fields: [],
+				extraParams: { crawlMode: 'site', maxDepth: 2 },
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ title: '首页', description: null, text: 'ABA 重复 外站手册 C', _url: 'https://docs.example.com/', _depth: 0, _referrer: null },
+				{ title: 'A', description: null, text: '首页A1', _url: 'https://docs.example.com/a', _depth: 1, _referrer: 'https://docs.example.com/' },
+				{ title: 'B', description: null, text: 'AB1', _url: 'https://docs.example.com/b', _depth: 1, _referrer: 'https://docs.example.com/' },
+				{ title: 'C', description: null, text: '无链接', _url: 'https://docs.example.com/c', _depth: 1, _referrer: 'https://docs.example.com/' },
+				{ title: 'A1', description: null, text: '更深', _url: 'https://docs.example.com/a/1', _depth: 2, _referrer: 'https://docs.example.com/a' },
+			]);
+			// /b/1 请求失败只跳过该页，/a/1/deep 超出最大深度
+			expect(mockedAxios.get.mock.calls.map(([url]) => url)).toEqual([
+				'https://docs.example.com/',
+				'https://docs.example.com/a',
+				'https://docs.example.com/b',
+				'https://docs.example.com/c',
+				'https://docs.example.com/a/1',
+				'https://docs.example.com/b/1',
+			]);
+		});
+
+		it('应按包含/排除模式过滤链接，配置字段时在整个页面中提取', async () => {
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://docs.example.com/',
+				listSelector: '',
+				fields: [{ name: 'title', selector: 'title', type: 'text' }],
+				extraParams: {
+					crawlMode: 'site',
+					includePatterns: '/a\n/a/**\n',
+					excludePatterns: '/a/1',
+					siteMaxPages: 10,
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ title: '首页', _url: 'https://docs.example.com/', _depth: 0, _referrer: null },
+				{ title: 'A', _url: 'https://docs.example.com/a', _depth: 1, _referrer: 'https://docs.example.com/' },
+			]);
+		});
+
+		it('最大页面数应限制抓取的页面总数，起始页失败时报错', async () => {
+			const crawler = new SmartCrawler();
+			const limited = await crawler.execute.call(createMockExecuteFunctions({
+				url: 'https://docs.example.com/',
+				listSelector: '',
+				fields: [{ name: 'title', selector: 'title', type: 'text' }],
+				extraParams: { crawlMode: 'site', siteMaxPages: 3 },
+			}));
+			expect(limited[0].map((r) => r.json._url)).toEqual([
+				'https://docs.example.com/',
+				'https://docs.example.com/a',
+				'https://docs.example.com/b',
+			]);
+
+			await expect(crawler.execute.call(createMockExecuteFunctions({
+				url: 'https://docs.example.com/missing',
+				listSelector: '',
+				fields: [],
+				extraParams: { crawlMode: 'site' },
+			}))).rejects.toThrow('404');
+		});
+	});
+
+	describe('robots.txt 与站点地图', () => {
+		const notFound = () =>
+			Object.assign(new Error('Request failed with status code 404'), { response: { status: 404, headers: {} } });
+		const mockSite = (pages: Record<string, string>) => {
+			mockedAxios.get.mockImplementation(async (url: string) => {
+				if (!(url in pages)) throw notFound();
+				return { data: pages[url], status: 200 };
+			});
+		};
+		const detailPage = (n: number) => `<html><head><title>详情${n}</title></head><body><div class="body">正文${n}</div></body></html>`;
+
+		it('应跳过被禁止的跳转页并说明原因和输出跳过的页面，按 Crawl-delay 限速', async () => {
+			mockSite({
+				'https://example.com/robots.txt': 'User-agent: *\nDisallow: /detail/2\nCrawl-delay: 0.06',
+				'https://example.com/list': MOCK_LIST_HTML,
+				'https://example.com/detail/1': detailPage(1),
+				'https://example.com/detail/3': detailPage(3),
+			});
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: {
+					requestOptions: { respectRobots: true },
+					fields: {
+						field: [{ name: 'detail', selector: '.link', fieldType: 'jump', targetSelector: '.body' }],
+					},
+				},
+			});
+
+			const start = Date.now();
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ detail: '正文1' },
+				{ detail: null, _errors: { detail: 'robots.txt 禁止抓取 https://example.com/detail/2（Disallow: /detail/2）' } },
+				{ detail: '正文3' },
+				{
+					url: 'https://example.com/detail/2',
+					_skipped: 'robots.txt 禁止抓取 https://example.com/detail/2（Disallow: /detail/2）',
+				},
+			]);
+			expect(mockedAxios.get.mock.calls.map(([url]) => url)).toEqual([
+				'https://example.com/robots.txt',
+				'https://example.com/list',
+				'https://example.com/detail/1',
+				'https://example.com/detail/3',
+			]);
+			expect(Date.now() - start).toBeGreaterThanOrEqual(115);
+		});
+
+		it('列表页被禁止时应报错，robots.txt 不存在时不限制，未开启时不读取', async () => {
+			mockSite({ 'https://example.com/robots.txt': 'User-agent: *\nDisallow: /list', 'https://example.com/list': MOCK_LIST_HTML });
+			const crawler = new SmartCrawler();
+			const params = {
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' as const }],
+			};
+
+			await expect(crawler.execute.call(createMockExecuteFunctions({
+				...params,
+				extraParams: { requestOptions: { respectRobots: true } },
+			}))).rejects.toThrow('robots.txt 禁止抓取 https://example.com/list（Disallow: /list）');
+
+			mockedAxios.get.mockClear();
+			await crawler.execute.call(createMockExecuteFunctions(params));
+			expect(mockedAxios.get.mock.calls.map(([url]) => url)).toEqual(['https://example.com/list']);
+
+			mockSite({ 'https://example.com/list': MOCK_LIST_HTML });
+			const result = await crawler.execute.call(createMockExecuteFunctions({
+				...params,
+				extraParams: { requestOptions: { respectRobots: true } },
+			}));
+			expect(result[0]).toHaveLength(3);
+		});
+
+		it('站点地图模式应抓取 sitemap 中的页面，每页输出 URL 和 lastmod', async () => {
+			mockSite({
+				'https://example.com/robots.txt': 'User-agent: *\nDisallow: /detail/2',
+				'https://example.com/sitemap.xml': `<urlset>
+					<url><loc>https://example.com/detail/1</loc><lastmod>2024-05-01</lastmod></url>
+					<url><loc>https://example.com/detail/2</loc></url>
+					<url><loc>https://example.com/detail/3</loc></url>
+					<url><loc>https://example.com/about</loc></url>
+				</urlset>`,
+				'https://example.com/detail/1': detailPage(1),
+				'https://example.com/detail/3': detailPage(3),
+			});
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/sitemap.xml',
+				listSelector: '',
+				fields: [{ name: 'title', selector: 'title', type: 'text' }],
+				extraParams: {
+					crawlMode: 'sitemap',
+					includePatterns: '/detail/*',
+					requestOptions: { respectRobots: true },
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{ title: '详情1', _url: 'https://example.com/detail/1', _lastmod: '2024-05-01' },
+				{ title: '详情3', _url: 'https://example.com/detail/3', _lastmod: null },
+				{
+					url: 'https://example.com/detail/2',
+					_skipped: 'robots.txt 禁止抓取 https://example.com/detail/2（Disallow: /detail/2）',
+				},
+			]);
+		});
+	});
+
+	describe('增量抓取', () => {
+		const fields = [
+			{ name: 'title', selector: '.title', type: 'text' as const },
+			{ name: 'link', selector: '.link', type: 'attribute' as const, attribute: 'href' },
+		];
+		const run = (staticData: IDataObject, incrementalOptions: IDataObject = {}) =>
+			new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields,
+				staticData,
+				extraParams: { onlyNewItems: true, incrementalOptions },
+			}));
+
+		it('后续执行只输出未出现过的条目', async () => {
+			const staticData: IDataObject = {};
+
+			expect((await run(staticData, { keyFields: 'link' }))[0]).toHaveLength(3);
+
+			mockedAxios.get.mockResolvedValue({
+				data: MOCK_LIST_HTML.replace('<ul class="item-list">', `<ul class="item-list">
+					<li class="item"><span class="title">文章四</span><a class="link" href="/detail/4">查看详情</a></li>`),
+				status: 200,
+			});
+			const result = await run(staticData, { keyFields: 'link' });
+
+			expect(result[0].map((r) => r.json)).toEqual([{ title: '文章四', link: '/detail/4' }]);
+			expect((staticData.seen as Array<[string, number]>).map(([key]) => key))
+				.toEqual(['/detail/4', '/detail/1', '/detail/2', '/detail/3']);
+		});
+
+		it('应限制记录条数，重置后重新输出全部条目', async () => {
+			const staticData: IDataObject = {};
+
+			await run(staticData, { maxKeys: 2 });
+			expect(staticData.seen).toHaveLength(2);
+			expect((await run(staticData, { maxKeys: 2 }))[0].map((r) => r.json.title)).toEqual(['文章一']);
+
+			expect((await run(staticData, { resetSeen: true }))[0]).toHaveLength(3);
+			// 保持开启时不再重复清空
+			expect((await run(staticData, { resetSeen: true }))[0]).toHaveLength(0);
+
+			await run(staticData);
+			expect((await run(staticData, { resetSeen: true }))[0]).toHaveLength(3);
+		});
+
+		it('未开启时不读取工作流静态数据', async () => {
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields,
+			});
+
+			expect((await new SmartCrawler().execute.call(mockContext))[0]).toHaveLength(3);
+			expect(mockContext.getWorkflowStaticData).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('变化检测', () => {
+		const run = (staticData: IDataObject, extraParams: Record<string, unknown> = {}) =>
+			new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [
+					{ name: 'title', selector: '.title', type: 'text' },
+					{ name: 'author', selector: '.author', type: 'text' },
+				],
+				staticData,
+				extraParams: { detectChanges: true, changeKeyFields: 'title', ...extraParams },
+			}));
+
+		it('应输出与上次结果相比新增、变化和删除的条目', async () => {
+			const staticData: IDataObject = {};
+
+			expect((await run(staticData))[0].map((r) => r.json._change)).toEqual(['added', 'added', 'added']);
+
+			mockedAxios.get.mockResolvedValue({
+				data: MOCK_LIST_HTML.replace('作者B', '作者D').replace('文章三', '文章四'),
+				status: 200,
+			});
+			const result = await run(staticData);
+
+			expect(result[0].map((r) => r.json)).toEqual([
+				{
+					title: '文章二',
+					author: '作者D',
+					_change: 'changed',
+					_changes: { author: { before: '作者B', after: '作者D' } },
+				},
+				{ title: '文章四', author: '作者C', _change: 'added' },
+				{ title: '文章三', author: '作者C', _change: 'removed' },
+			]);
+		});
+
+		it('重置上次结果只在开启后的首次执行时清空', async () => {
+			const staticData: IDataObject = {};
+			const reset = { changeOptions: { resetSnapshot: true } };
+
+			await run(staticData);
+			expect((await run(staticData, reset))[0].map((r) => r.json._change)).toEqual(['added', 'added', 'added']);
+			expect((await run(staticData, reset))[0]).toHaveLength(0);
+
+			await run(staticData);
+			expect((await run(staticData, reset))[0]).toHaveLength(3);
+		});
+
+		it('未填写唯一键字段时应报错', async () => {
+			await expect(run({}, { changeKeyFields: ' ' })).rejects.toThrow('对比上次结果需要填写唯一键字段');
+		});
+	});
+
+	describe('响应编码', () => {
+		const gbk = (hex: string) => Buffer.from(hex, 'hex');
+		// 中文标题 / 详情正文 的 GBK 编码
+		const LIST_PAGE = Buffer.concat([
+			Buffer.from('<html><body><ul class="item-list"><li class="item"><span class="title">'),
+			gbk('d6d0cec4b1eacce2'),
+			Buffer.from('</span><a class="link" href="/detail/1">#</a></li></ul></body></html>'),
+		]);
+		const DETAIL_PAGE = Buffer.concat([
+			Buffer.from('<html><head><meta http-equiv="Content-Type" content="text/html; charset=gb2312"></head><body><div class="body">'),
+			gbk('cfeac7e9d5fdcec4'),
+			Buffer.from('</div></body></html>'),
+		]);
+		const fields = [
+			{ name: 'title', selector: '.title', fieldType: 'normal', type: 'text' },
+			{ name: 'detail', selector: '.link', fieldType: 'jump', targetSelector: '.body' },
+		];
+
+		it('列表页按 Content-Type、跳转页按 meta charset 解码', async () => {
+			mockedAxios.get.mockImplementation(async (url: string) => url.endsWith('/list')
+				? { data: LIST_PAGE, status: 200, headers: { 'content-type': 'text/html; charset=GBK' } }
+				: { data: DETAIL_PAGE, status: 200, headers: { 'content-type': 'text/html' } });
+
+			const result = await new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { fields: { field: fields } },
+			}));
+
+			expect(result[0].map((r) => r.json)).toEqual([{ title: '中文标题', detail: '详情正文' }]);
+			expect(mockedAxios.get).toHaveBeenCalledWith(
+				'https://example.com/list',
+				expect.objectContaining({ responseType: 'arraybuffer' }),
+			);
+		});
+
+		it('应使用手动指定的编码', async () => {
+			mockedAxios.get.mockResolvedValue({ data: LIST_PAGE, status: 200, headers: { 'content-type': 'text/html; charset=utf-8' } });
+
+			const result = await new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: { requestOptions: { encoding: 'gbk' } },
+			}));
+
+			expect(result[0][0].json).toEqual({ title: '中文标题' });
+		});
+	});
+
+	describe('浏览器模式', () => {
+		it('整个执行应只启动一个浏览器，列表页和所有跳转页共用', async () => {
+			mockPage.content.mockImplementation(async () =>
+				mockPageUrl.endsWith('/list') ? MOCK_LIST_HTML : '<div class="body">详情</div>',
+			);
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				cookie: 'sid=1',
+				fields: [],
+				extraParams: {
+					useBrowser: true,
+					fields: {
+						field: [{ name: 'detail', selector: '.link', fieldType: 'jump', targetSelector: '.body' }],
+					},
+				},
+				inputItemCount: 2,
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0]).toHaveLength(6);
+			expect(result[0][0].json).toEqual({ detail: '详情' });
+			expect(mockLaunch).toHaveBeenCalledTimes(1);
+			expect(mockBrowser.newPage).toHaveBeenCalledTimes(1);
+			expect(mockPage.goto).toHaveBeenCalledTimes(8);
+			expect(mockPage.setCookie).toHaveBeenCalledTimes(1);
+			expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+			expect(mockedAxios.get).not.toHaveBeenCalled();
+		});
+
+		it('应在列表页和跳转页提取前执行浏览器操作', async () => {
+			mockPage.content.mockImplementation(async () =>
+				mockPageUrl.endsWith('/list') ? MOCK_LIST_HTML : '<div class="body">详情</div>',
+			);
+			mockPage.waitForSelector.mockImplementation(async (selector: string) => {
+				if (selector === '.banner') throw new Error('Waiting for selector `.banner` failed');
+				return mockElement;
+			});
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				continueOnFail: true,
+				extraParams: {
+					useBrowser: true,
+					maxItems: 1,
+					browserActions: {
+						action: [
+							{ target: 'list', type: 'click', selector: '.banner', timeout: 1000, continueOnFail: true },
+							{ target: 'list', type: 'type', selector: 'input.search', text: '手机' },
+							{ target: 'jump', type: 'evaluate', script: 'window.scrollTo(0, 1000);', timeout: 5000 },
+						],
+					},
+					fields: {
+						field: [{ name: 'detail', selector: '.link', fieldType: 'jump', targetSelector: '.body' }],
+					},
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+			mockPage.waitForSelector.mockImplementation(async () => mockElement);
+
+			expect(result[0].map((r) => r.json)).toEqual([{ detail: '详情' }]);
+			expect(mockPage.waitForSelector).toHaveBeenCalledWith('.banner', { timeout: 1000 });
+			expect(mockElement.type).toHaveBeenCalledWith('手机');
+			expect(mockPage.waitForFunction).toHaveBeenCalledTimes(1);
+			expect(mockPage.waitForFunction).toHaveBeenCalledWith(
+				'(async () => { window.scrollTo(0, 1000); })().then(() => true)',
+				{ timeout: 5000 },
+			);
+		});
+
+		it('应滚动加载到最大条数后再提取', async () => {
+			// 每次滚动多加载 2 条
+			let loaded = 2;
+			const feed = () => `<ul class="item-list">${Array.from({ length: loaded }, (_, i) =>
+				`<li class="item"><span class="title">文章${i + 1}</span></li>`).join('')}</ul>`;
+			mockPage.evaluate.mockImplementation(async (script: string) => {
+				if (script.startsWith('window.scrollTo')) loaded += 2;
+				return loaded;
+			});
+			mockPage.$$.mockImplementation(async () => Array.from({ length: loaded }));
+			mockPage.content.mockImplementation(async () => feed());
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/feed',
+				listSelector: '.item-list .item',
+				fields: [{ name: 'title', selector: '.title', type: 'text' }],
+				extraParams: {
+					useBrowser: true,
+					maxItems: 5,
+					infiniteScroll: 'scroll',
+					scrollOptions: { waitTime: 0 },
+				},
+			});
+
+			const result = await crawler.execute.call(mockContext);
+
+			expect(result[0].map((r) => r.json.title)).toEqual(['文章1', '文章2', '文章3', '文章4', '文章5']);
+			expect(mockPage.$$).toHaveBeenCalledWith('.item-list .item');
+			expect(mockPage.evaluate).toHaveBeenCalledTimes(2);
+		});
+
+		describe('捕获网络响应', () => {
+			const STORIES = { data: { items: [{ title: '文章A', id: 1 }, { title: '文章B', id: 2 }] } };
+
+			beforeEach(() => {
+				mockPage.content.mockResolvedValue('<div id="app"></div>');
+				mockPage.goto.mockImplementationOnce(async (url: string) => {
+					mockPageUrl = url;
+					mockRespond('https://api.example.com/stories?page=1', STORIES);
+					mockRespond('https://api.example.com/user', { name: 'me' });
+					mockRespond('https://api.example.com/stories.js', STORIES, 'script');
+				});
+			});
+
+			it('应从捕获的响应中提取列表', async () => {
+				const crawler = new SmartCrawler();
+				const mockContext = createMockExecuteFunctions({
+					url: 'https://example.com/feed',
+					listSelector: '$.data.items[*]',
+					fields: [{ name: 'title', selector: 'title', type: 'text' }],
+					extraParams: {
+						useBrowser: true,
+						captureResponses: 'list',
+						capturePatterns: 'https://api.example.com/stories*',
+					},
+				});
+
+				const result = await crawler.execute.call(mockContext);
+
+				expect(result[0].map((r) => r.json)).toEqual([{ title: '文章A' }, { title: '文章B' }]);
+				expect(mockPage.off).toHaveBeenCalledWith('response', expect.any(Function));
+				// 列表选择器是 JSONPath，不在页面中等待
+				expect(mockPage.waitForSelector).not.toHaveBeenCalled();
+			});
+
+			it('应把捕获的响应作为额外条目输出', async () => {
+				const crawler = new SmartCrawler();
+				const mockContext = createMockExecuteFunctions({
+					url: 'https://example.com/feed',
+					listSelector: '#app',
+					fields: [],
+					extraParams: {
+						useBrowser: true,
+						captureResponses: 'output',
+						capturePatterns: '/stories**\n/user',
+					},
+				});
+
+				const result = await crawler.execute.call(mockContext);
+
+				expect(result[0].map((r) => r.json)).toEqual([
+					{},
+					{ url: 'https://api.example.com/stories?page=1', status: 200, data: STORIES, _pageUrl: 'https://example.com/feed' },
+					{ url: 'https://api.example.com/user', status: 200, data: { name: 'me' }, _pageUrl: 'https://example.com/feed' },
+				]);
+			});
+
+			it('没有匹配的响应时应报错', async () => {
+				const crawler = new SmartCrawler();
+				const mockContext = createMockExecuteFunctions({
+					url: 'https://example.com/feed',
+					listSelector: '$.items[*]',
+					fields: [],
+					extraParams: { useBrowser: true, captureResponses: 'list', capturePatterns: '/graphql' },
+				});
+
+				await expect(crawler.execute.call(mockContext)).rejects.toThrow('未捕获到匹配的网络响应（/graphql）');
+			});
+		});
+
+		describe('模拟点击跳转', () => {
+			/** 列表项没有链接，只能点击按钮跳转 */
+			const CARDS_HTML = `<ul>${[1, 2, 3].map((n) =>
+				`<li class="card"><h3>卡片${n}</h3><div class="actions"><button>查看</button></div></li>`).join('')}</ul>`;
+			/** 第 n 个列表项的按钮，点击后执行 onClick */
+			const mockCards = (onClick: (n: number) => void) => [1, 2, 3].map((n) => ({
+				$$: jest.fn(async () => [{
+					$: jest.fn(async () => ({ click: jest.fn(async () => onClick(n)) })),
+				}]),
+			}));
+			const run = () => new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.card',
+				fields: [],
+				extraParams: {
+					useBrowser: true,
+					fields: {
+						field: [
+							{ name: 'title', selector: 'h3', fieldType: 'normal', type: 'text' },
+							{ name: 'detail', selector: '.actions', fieldType: 'jump', clickSelector: 'button', targetSelector: '.body' },
+						],
+					},
+				},
+			}));
+
+			beforeEach(() => {
+				mockPage.content.mockImplementation(async () =>
+					mockPageUrl.endsWith('/list') ? CARDS_HTML : `<div class="body">${mockPageUrl}</div>`,
+				);
+			});
+
+			it('应在每个列表项内点击，跟随整页跳转或路由变化', async () => {
+				const cards = mockCards((n) => { mockPageUrl = `https://example.com/card/${n}`; });
+				mockPage.$$.mockImplementation(async (selector) => (selector === '.card' ? cards : []));
+
+				const result = await run();
+
+				expect(result[0].map((item) => item.json)).toEqual([
+					{ title: '卡片1', detail: 'https://example.com/card/1' },
+					{ title: '卡片2', detail: 'https://example.com/card/2' },
+					{ title: '卡片3', detail: 'https://example.com/card/3' },
+				]);
+				// 每次点击前重新打开列表页
+				expect(mockPage.goto).toHaveBeenCalledTimes(4);
+				expect(mockPage.waitForSelector).toHaveBeenCalledWith('.card', { timeout: 15000 });
+				expect(cards[1].$$).toHaveBeenCalledWith('.actions');
+			});
+
+			it('应跟随新标签页并在提取后关闭', async () => {
+				const popup = {
+					url: () => 'https://example.com/popup',
+					waitForFunction: jest.fn(async () => true),
+					waitForSelector: jest.fn(async () => mockElement),
+					content: jest.fn(async () => '<div class="body">新标签页</div>'),
+					close: jest.fn(async () => {}),
+				};
+				const cards = mockCards((n) => {
+					if (n === 2) mockPageListeners.popup?.(popup);
+					else mockPageUrl = `https://example.com/card/${n}`;
+				});
+				mockPage.$$.mockImplementation(async (selector) => (selector === '.card' ? cards : []));
+
+				const result = await run();
+
+				expect(result[0].map((item) => item.json.detail)).toEqual([
+					'https://example.com/card/1',
+					'新标签页',
+					'https://example.com/card/3',
+				]);
+				expect(popup.waitForSelector).toHaveBeenCalledWith('.body', { timeout: 15000 });
+				expect(popup.close).toHaveBeenCalledTimes(1);
+				expect(mockPageListeners.popup).toBeUndefined();
+			});
+		});
+
+		describe('保存页面', () => {
+			it('应把列表页和跳转页的截图、PDF 作为二进制数据输出', async () => {
+				mockPage.content.mockImplementation(async () =>
+					mockPageUrl.endsWith('/list') ? MOCK_LIST_HTML : '<div class="body">详情</div>',
+				);
+
+				const result = await new SmartCrawler().execute.call(createMockExecuteFunctions({
+					url: 'https://example.com/list',
+					listSelector: '.item-list .item',
+					fields: [],
+					extraParams: {
+						useBrowser: true,
+						fields: {
+							field: [{ name: 'detail', selector: '.link', fieldType: 'jump', targetSelector: '.body' }],
+						},
+						capturePages: ['screenshot', 'pdf'],
+						capturePageOptions: { jumpPages: true },
+					},
+				}));
+
+				// 列表页的附加在该页第一个条目上
+				expect(result[0]).toHaveLength(3);
+				expect(result[0][0].json).toEqual({ detail: '详情' });
+				expect(result[0][0].binary).toEqual({
+					screenshot: { data: 'cG5n', fileName: 'example.com_list.png', mimeType: 'image/png' },
+					pdf: { data: 'cGRm', fileName: 'example.com_list.pdf', mimeType: 'application/pdf' },
+					detail_screenshot: { data: 'cG5n', fileName: 'example.com_detail_1.png', mimeType: 'image/png' },
+					detail_pdf: { data: 'cGRm', fileName: 'example.com_detail_1.pdf', mimeType: 'application/pdf' },
+				});
+				expect(Object.keys(result[0][1].binary!)).toEqual(['detail_screenshot', 'detail_pdf']);
+				expect(mockPage.screenshot).toHaveBeenCalledWith({ type: 'png', fullPage: true });
+			});
+
+			it('列表页加载失败时应在错误条目上附加截图', async () => {
+				mockPage.content.mockResolvedValue(MOCK_LIST_HTML);
+				mockPage.waitForSelector.mockRejectedValueOnce(new Error('Waiting for selector `.item-list .item` failed'));
+
+				const result = await new SmartCrawler().execute.call(createMockExecuteFunctions({
+					url: 'https://example.com/list',
+					listSelector: '.item-list .item',
+					fields: [],
+					continueOnFail: true,
+					extraParams: {
+						useBrowser: true,
+						capturePages: ['screenshot'],
+						capturePageOptions: { format: 'jpeg', quality: 50 },
+						requestOptions: { retryMaxAttempts: 1 },
+					},
+				}));
+
+				expect(result[0]).toHaveLength(1);
+				expect(result[0][0].json.error).toContain('Waiting for selector');
+				expect(result[0][0].binary).toEqual({
+					screenshot: { data: 'cG5n', fileName: 'example.com_list.jpg', mimeType: 'image/jpeg' },
+				});
+				expect(mockPage.screenshot).toHaveBeenCalledWith({ type: 'jpeg', quality: 50, fullPage: true });
+				expect(mockPage.pdf).not.toHaveBeenCalled();
+			});
+
+			it('对比上次结果时不应保存跳转页截图', async () => {
+				mockPage.content.mockImplementation(async () =>
+					mockPageUrl.endsWith('/list') ? MOCK_LIST_HTML : '<div class="body">详情</div>',
+				);
+				const staticData: IDataObject = {};
+
+				const result = await new SmartCrawler().execute.call(createMockExecuteFunctions({
+					url: 'https://example.com/list',
+					listSelector: '.item-list .item',
+					fields: [],
+					staticData,
+					extraParams: {
+						useBrowser: true,
+						fields: {
+							field: [
+								{ name: 'link', selector: '.link', fieldType: 'normal', type: 'attribute', attribute: 'href' },
+								{ name: 'detail', selector: '.link', fieldType: 'jump', targetSelector: '.body' },
+							],
+						},
+						detectChanges: true,
+						changeKeyFields: 'link',
+						capturePages: ['screenshot'],
+						capturePageOptions: { jumpPages: true },
+					},
+				}));
+
+				expect(result[0][0].json).toEqual({ link: '/detail/1', detail: '详情', _change: 'added' });
+				expect(Object.keys(result[0][0].binary!)).toEqual(['screenshot', 'detail_screenshot']);
+				expect(JSON.stringify(staticData)).not.toContain('_captures');
+			});
+		});
+
+		describe('屏蔽资源', () => {
+			/** 模拟页面发出的请求，返回处理结果 */
+			const mockRequest = (url: string, resourceType: string, isNavigation = false) => {
+				const request = {
+					url: () => url,
+					resourceType: () => resourceType,
+					isNavigationRequest: () => isNavigation,
+					frame: () => mockMainFrame,
+					isInterceptResolutionHandled: () => false,
+					headers: () => ({ accept: 'text/html' }),
+					continue: jest.fn(async () => {}),
+					abort: jest.fn(async () => {}),
+				};
+				mockPageListeners.request?.(request);
+				return request;
+			};
+			let requests: Record<string, ReturnType<typeof mockRequest>> = {};
+
+			beforeEach(() => {
+				requests = {};
+				mockPage.content.mockResolvedValue(MOCK_LIST_HTML);
+				mockPage.goto.mockImplementationOnce(async (url: string) => {
+					mockPageUrl = url;
+					requests.document = mockRequest(url, 'document', true);
+					requests.image = mockRequest('https://example.com/a.png', 'image');
+					requests.stylesheet = mockRequest('https://example.com/a.css', 'stylesheet');
+					requests.tracker = mockRequest('https://hm.baidu.com/hm.js?abc', 'script');
+					requests.domain = mockRequest('https://x.ads.example.net/a', 'xhr');
+					requests.pattern = mockRequest('https://example.com/ads/banner.js', 'script');
+					requests.script = mockRequest('https://example.com/app.js', 'script');
+				});
+			});
+
+			const run = (extraParams: Record<string, unknown>) => new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { useBrowser: true, ...extraParams },
+			}));
+			const blocked = () => Object.keys(requests).filter((key) => requests[key].abort.mock.calls.length > 0);
+
+			it('默认屏蔽图片和媒体，可屏蔽常见统计和自定义 URL', async () => {
+				await run({
+					blockResourceTypes: ['image', 'media'],
+					blockTrackers: true,
+					blockUrls: 'ads.example.net\n**/ads/**',
+				});
+
+				expect(blocked()).toEqual(['image', 'tracker', 'domain', 'pattern']);
+				expect(requests.document.continue).toHaveBeenCalledWith();
+				expect(requests.image.abort).toHaveBeenCalledWith('blockedbyclient');
+				expect(mockPage.setRequestInterception.mock.calls).toEqual([[true], [false]]);
+				expect(mockPage.off).toHaveBeenCalledWith('request', expect.any(Function));
+			});
+
+			it('不屏蔽时应只为非 GET 请求拦截，并改写首个导航请求', async () => {
+				await run({ blockResourceTypes: [] });
+				expect(mockPage.setRequestInterception).not.toHaveBeenCalled();
+
+				mockPage.goto.mockImplementationOnce(async (url: string) => {
+					mockPageUrl = url;
+					requests.document = mockRequest(url, 'document', true);
+					requests.image = mockRequest('https://example.com/a.png', 'image');
+				});
+				await run({
+					blockResourceTypes: ['image'],
+					requestMethod: 'POST',
+					bodyType: 'json',
+					jsonBody: '{"q":1}',
+				});
+
+				expect(requests.document.continue).toHaveBeenCalledWith({
+					method: 'POST',
+					postData: '{"q":1}',
+					headers: { accept: 'text/html', 'content-type': 'application/json' },
+				});
+				expect(blocked()).toEqual(['image']);
+			});
+
+			it('保存页面时默认不屏蔽图片、媒体和字体', async () => {
+				await run({ blockResourceTypes: ['image', 'stylesheet'], capturePages: ['screenshot'] });
+				expect(blocked()).toEqual(['stylesheet']);
+
+				mockPage.goto.mockImplementationOnce(async (url: string) => {
+					mockPageUrl = url;
+					requests = { document: mockRequest(url, 'document', true), image: mockRequest('https://example.com/a.png', 'image') };
+				});
+				await run({ blockResourceTypes: ['image'], capturePages: ['screenshot'], capturePageOptions: { blockResources: true } });
+				expect(blocked()).toEqual(['image']);
+			});
+		});
+
+		it('浏览器规范化链接后仍应改写主框架的首个导航请求', async () => {
+			const iframe = {};
+			const navigations: Array<{ frame: object; continue: jest.Mock }> = [];
+			mockPage.content.mockResolvedValue(MOCK_LIST_HTML);
+			mockPage.goto.mockImplementationOnce(async () => {
+				// 浏览器发出的请求链接补全了路径
+				mockPageUrl = 'https://example.com/';
+				for (const frame of [mockMainFrame, iframe, mockMainFrame]) {
+					const navigation = { frame, continue: jest.fn(async () => {}) };
+					navigations.push(navigation);
+					mockPageListeners.request?.({
+						url: () => mockPageUrl,
+						resourceType: () => 'document',
+						isNavigationRequest: () => true,
+						frame: () => frame,
+						isInterceptResolutionHandled: () => false,
+						headers: () => ({ accept: 'text/html' }),
+						continue: navigation.continue,
+						abort: jest.fn(async () => {}),
+					});
+				}
+			});
+
+			await new SmartCrawler().execute.call(createMockExecuteFunctions({
+				url: 'https://example.com',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: { useBrowser: true, requestMethod: 'POST', bodyType: 'json', jsonBody: '{"q":1}' },
+			}));
+
+			expect(navigations.map((navigation) => navigation.continue.mock.calls[0])).toEqual([
+				[{ method: 'POST', postData: '{"q":1}', headers: { accept: 'text/html', 'content-type': 'application/json' } }],
+				[],
+				[],
+			]);
+		});
+
+		it('浏览器操作失败时应报错', async () => {
+			mockPage.content.mockResolvedValue(MOCK_LIST_HTML);
+			mockPage.waitForSelector.mockRejectedValueOnce(new Error('Waiting for selector `.tab` failed'));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item-list .item',
+				fields: [],
+				extraParams: {
+					useBrowser: true,
+					browserActions: { action: [{ target: 'list', type: 'click', selector: '.tab' }] },
+				},
+			});
+
+			await expect(crawler.execute.call(mockContext))
+				.rejects.toThrow('浏览器操作 1（click .tab）失败: Waiting for selector `.tab` failed');
+		});
+
+		it('出错时也应关闭浏览器', async () => {
+			mockPage.goto.mockRejectedValueOnce(new Error('timeout'));
+
+			const crawler = new SmartCrawler();
+			const mockContext = createMockExecuteFunctions({
+				url: 'https://example.com/list',
+				listSelector: '.item',
+				fields: [],
+				extraParams: { useBrowser: true },
+			});
+
+			await expect(crawler.execute.call(mockContext)).rejects.toThrow('timeout');
+			expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+		});
+	});
+
 	describe('description', () => {
 		it('节点应包含正确的 displayName 和 name', () => {
 			const crawler = new SmartCrawler();
@@ -1,39 +1,294 @@
 import type {
+	ICredentialDataDecryptedObject,
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IBinaryKeyData,
 	IDataObject,
 	IExecuteFunctions,
+	INodeCredentialTestResult,
 	INodeExecutionData,
 	INodeType,
+	INodeProperties,
 	INodeTypeDescription,
 } from 'n8n-workflow';
 import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
 
-import axios from 'axios';
+import type { CrawlerAuth } from './Auth';
+import { credentialsToAuth } from './Auth';
+import type { BrowserAction, InfiniteScrollConfig, InfiniteScrollMode } from './BrowserActions';
+import { DEFAULT_SCROLL_DURATION, DEFAULT_SCROLL_ITERATIONS, DEFAULT_SCROLL_WAIT } from './BrowserActions';
+import { BrowserSession } from './BrowserSession';
+import type { ResponseType } from './Content';
+import type { AutoDetectMode, FieldConfig } from './CrawlerEngine';
+import { CrawlerEngine } from './CrawlerEngine';
+import type { HttpMethod, RequestConfig } from './Fetcher';
+import type { ChangeDetectionConfig, ChangeType, IncrementalConfig, SeenState, SnapshotState } from './Incremental';
+import { diffItems, filterNewItems } from './Incremental';
+import type { PageCapture, PageCaptureConfig, PageCaptureType } from './PageCapture';
+import type { PaginationConfig, PaginationMode } from './Pagination';
+import { DEFAULT_MAX_PAGES } from './Pagination';
+import { ProxyRotator, credentialsToProxies } from './Proxy';
+import type { RateLimitConfig } from './RateLimiter';
+import { HostRateLimiter } from './RateLimiter';
+import type { ResourceBlockConfig } from './ResourceBlocking';
+import { CAPTURE_RESOURCE_TYPES, DEFAULT_BLOCKED_RESOURCE_TYPES, TRACKER_DOMAINS } from './ResourceBlocking';
+import type { ResponseCaptureConfig } from './ResponseCapture';
+import type { FetchAttempt, RetryPolicy } from './Retry';
+import { DEFAULT_RETRY_ERROR_CODES, DEFAULT_RETRY_STATUS_CODES } from './Retry';
+import { RobotsChecker } from './Robots';
+import type { SelectorType } from './Selector';
+import type { SitemapConfig } from './Sitemap';
+import type { SiteCrawlConfig, UrlFilterConfig, UrlPatternType } from './SiteCrawl';
+import { DEFAULT_SITE_MAX_DEPTH, DEFAULT_SITE_MAX_PAGES } from './SiteCrawl';
+import type { FieldTransform } from './Transforms';
 
-import * as cheerio from 'cheerio';
-import type { AnyNode } from 'domhandler';
+/**
+ * 字段选择器类型，inherit 表示与列表选择器相同
+ */
+type FieldSelectorType = SelectorType | 'inherit';
 
-interface FieldData {
+interface MultipleOptions {
+	multiple?: boolean;
+	separator?: string;
+	maxCount?: number;
+}
+
+interface TransformsData {
+	transform?: FieldTransform[];
+}
+
+interface FieldData extends MultipleOptions {
 	name: string;
 	selector: string;
+	selectorType?: FieldSelectorType;
 	fieldType: 'normal' | 'jump';
 	type?: 'text' | 'html' | 'attribute';
 	attribute?: string;
+	transforms?: TransformsData;
 	clickSelector?: string;
 	targetSelector?: string;
+	urlTemplate?: string;
+	responseType?: ResponseType;
+	jsonSource?: string;
+	inheritHeaders?: boolean;
+	structuredData?: boolean;
+	structuredType?: string;
+	jumpHeaders?: string | IDataObject;
 	jumpFields?: { field?: JumpSubField[] };
 }
 
-interface JumpSubField {
+interface JumpSubField extends MultipleOptions {
 	name: string;
 	selector: string;
+	selectorType?: FieldSelectorType;
 	type: 'text' | 'html' | 'attribute';
 	attribute?: string;
+	transforms?: TransformsData;
 }
 
 interface FieldsData {
 	field?: FieldData[];
 }
 
+interface RequestOptions extends RateLimitConfig {
+	concurrency?: number;
+	retryMaxAttempts?: number;
+	retryBaseDelay?: number;
+	retryBackoffFactor?: number;
+	retryStatusCodes?: string;
+	retryErrorCodes?: string;
+	respectRobots?: boolean;
+	encoding?: string;
+}
+
+interface BrowserActionData extends BrowserAction {
+	target: 'list' | 'jump';
+}
+
+interface IncrementalOptions {
+	keyFields?: string;
+	maxKeys?: number;
+	ttlHours?: number;
+	resetSeen?: boolean;
+}
+
+interface ChangeOptions {
+	maxKeys?: number;
+	ttlHours?: number;
+	compareFields?: string;
+	outputTypes?: ChangeType[];
+	resetSnapshot?: boolean;
+}
+
+interface PageCaptureOptions extends PageCaptureConfig {
+	blockResources?: boolean;
+}
+
+interface NameValueCollection {
+	parameter?: Array<{ name: string; value: string }>;
+}
+
+/**
+ * 字段的选择器类型，字段配置与跳转页面字段共用
+ */
+const fieldSelectorTypeProperty: INodeProperties = {
+	displayName: '选择器类型',
+	name: 'selectorType',
+	type: 'options',
+	options: [
+		{ name: 'CSS', value: 'css' },
+		{ name: 'XPath', value: 'xpath' },
+		{ name: '与列表选择器相同', value: 'inherit' },
+	],
+	default: 'inherit',
+	description: '选择器的语法',
+};
+
+/**
+ * 多值提取选项，字段配置与跳转页面字段共用
+ */
+const multipleProperty: INodeProperties = {
+	displayName: '提取全部匹配',
+	name: 'multiple',
+	type: 'boolean',
+	default: false,
+};
+
+const separatorProperty: INodeProperties = {
+	displayName: '连接分隔符',
+	name: 'separator',
+	type: 'string',
+	default: '',
+	placeholder: ', ',
+	description: '填写后把所有匹配值连接为一个字符串，为空则输出数组',
+	displayOptions: {
+		show: { multiple: [true] },
+	},
+};
+
+const maxCountProperty: INodeProperties = {
+	displayName: '最大数量',
+	name: 'maxCount',
+	type: 'number',
+	typeOptions: { minValue: 0 },
+	default: 0,
+	description: '最多提取的匹配数，0 表示不限',
+	displayOptions: {
+		show: { multiple: [true] },
+	},
+};
+
+/**
+ * 字段的后处理配置，字段配置与跳转页面字段共用
+ */
+const transformsProperty: INodeProperties = {
+	displayName: '后处理',
+	name: 'transforms',
+	type: 'fixedCollection',
+	typeOptions: { multipleValues: true, sortable: true },
+	default: {},
+	placeholder: '添加后处理',
+	description: '按顺序处理提取到的值，失败时该字段为 null 并记录到 _errors',
+	options: [
+		{
+			displayName: '后处理',
+			name: 'transform',
+			values: [
+				{
+					displayName: '捕获组',
+					name: 'group',
+					type: 'number',
+					typeOptions: { minValue: 0 },
+					default: 1,
+					description: '输出第几个捕获组，0 为整个匹配',
+					displayOptions: {
+						show: { type: ['regex'] },
+					},
+				},
+				{
+					displayName: '日期格式',
+					name: 'format',
+					type: 'string',
+					default: '',
+					placeholder: 'yyyy-MM-dd HH:mm',
+					description: 'Luxon 日期格式，为空则自动识别 ISO 8601、RFC 2822 等格式',
+					displayOptions: {
+						show: { type: ['date'] },
+					},
+				},
+				{
+					displayName: '时区',
+					name: 'timezone',
+					type: 'string',
+					default: '',
+					placeholder: 'Asia/Shanghai',
+					description: '日期不含时区时使用的时区，为空则使用服务器时区',
+					displayOptions: {
+						show: { type: ['date'] },
+					},
+				},
+				{
+					displayName: '替换为',
+					name: 'replacement',
+					type: 'string',
+					default: '',
+					description: '替换所有匹配，支持 $1 引用捕获组',
+					displayOptions: {
+						show: { type: ['replace'] },
+					},
+				},
+				{
+					displayName: '正则标志',
+					name: 'flags',
+					type: 'string',
+					default: '',
+					placeholder: 'i',
+					displayOptions: {
+						show: { type: ['regex', 'replace'] },
+					},
+				},
+				{
+					displayName: '正则表达式',
+					name: 'pattern',
+					type: 'string',
+					default: '',
+					placeholder: '编号：(\\d+)',
+					displayOptions: {
+						show: { type: ['regex', 'replace'] },
+					},
+				},
+				{
+					displayName: '类型',
+					name: 'type',
+					type: 'options',
+					options: [
+						{ name: '合并空白', value: 'collapseWhitespace' },
+						{ name: '正则提取', value: 'regex' },
+						{ name: '正则替换', value: 'replace' },
+						{ name: '解析日期', value: 'date' },
+						{ name: '转为布尔值', value: 'boolean' },
+						{ name: '转为数字', value: 'number' },
+						{ name: '转为整数', value: 'integer' },
+						{ name: '转为绝对 URL', value: 'absoluteUrl' },
+						{ name: '默认值', value: 'default' },
+					],
+					default: 'regex',
+				},
+				{
+					displayName: '默认值',
+					name: 'value',
+					type: 'string',
+					default: '',
+					description: '结果为 null 或空字符串时使用',
+					displayOptions: {
+						show: { type: ['default'] },
+					},
+				},
+			],
+		},
+	],
+};
+
 export class SmartCrawler implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'Smart Crawler',
@@ -48,7 +303,47 @@ export class SmartCrawler implements INodeType {
 		inputs: [NodeConnectionTypes.Main],
 		outputs: [NodeConnectionTypes.Main],
 		usableAsTool: true,
+		credentials: [
+			{
+				name: 'smartCrawlerAuthApi',
+				required: true,
+				testedBy: 'smartCrawlerAuthApiTest',
+				displayOptions: {
+					show: { authentication: ['smartCrawlerAuthApi'] },
+				},
+			},
+			{
+				name: 'smartCrawlerProxyApi',
+				required: true,
+				testedBy: 'smartCrawlerProxyApiTest',
+				displayOptions: {
+					show: { proxy: ['smartCrawlerProxyApi'] },
+				},
+			},
+		],
 		properties: [
+			{
+				displayName: '认证',
+				name: 'authentication',
+				type: 'options',
+				options: [
+					{ name: '无', value: 'none' },
+					{ name: 'Smart Crawler Auth', value: 'smartCrawlerAuthApi' },
+				],
+				default: 'none',
+				description: '使用凭证保存 Cookie、认证请求头或 Basic 认证，不会出现在工作流导出和执行日志中',
+			},
+			{
+				displayName: '代理',
+				name: 'proxy',
+				type: 'options',
+				options: [
+					{ name: '不使用代理', value: 'none' },
+					{ name: 'Smart Crawler Proxy', value: 'smartCrawlerProxyApi' },
+				],
+				default: 'none',
+				description: '列表页、跳转页和浏览器都通过代理访问，凭证中配置多个代理时静态请求依次轮换',
+			},
 			{
 				displayName: '页面链接',
 				name: 'url',
@@ -64,7 +359,148 @@ export class SmartCrawler implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'session_id=xxx; user_id=yyy',
-				description: '请求时使用的Cookie（可选）',
+				description: '请求时使用的Cookie（可选），建议改用认证凭证；凭证中配置了 Cookie 时以凭证为准',
+			},
+			{
+				displayName: '抓取范围',
+				name: 'crawlMode',
+				type: 'options',
+				options: [
+					{
+						name: '列表页',
+						value: 'list',
+						description: '从页面链接提取列表数据，可配置分页',
+					},
+					{
+						name: '整站',
+						value: 'site',
+						description: '从页面链接出发按广度优先跟随同域链接，每个页面输出一条',
+					},
+					{
+						name: '站点地图',
+						value: 'sitemap',
+						description: '页面链接填写 sitemap.xml 或 sitemap 索引（支持 gzip），抓取其中列出的页面，每个页面输出一条',
+					},
+				],
+				default: 'list',
+			},
+			{
+				displayName: '最大深度',
+				name: 'maxDepth',
+				type: 'number',
+				default: DEFAULT_SITE_MAX_DEPTH,
+				description: '跟随链接的最大层数，起始页为第 0 层',
+				displayOptions: {
+					show: { crawlMode: ['site'] },
+				},
+			},
+			{
+				displayName: '最大页面数',
+				name: 'siteMaxPages',
+				type: 'number',
+				default: DEFAULT_SITE_MAX_PAGES,
+				description: '最多抓取的页面数（含起始页）',
+				displayOptions: {
+					show: { crawlMode: ['site', 'sitemap'] },
+				},
+			},
+			{
+				displayName: 'URL 模式语法',
+				name: 'urlPatternType',
+				type: 'options',
+				options: [
+					{
+						name: 'Glob',
+						value: 'glob',
+						description: '* 不跨越 /，** 匹配任意字符；以 / 开头时匹配路径，否则匹配完整 URL',
+					},
+					{
+						name: '正则表达式',
+						value: 'regex',
+						description: '在完整 URL 中搜索',
+					},
+				],
+				default: 'glob',
+				displayOptions: {
+					show: { crawlMode: ['site', 'sitemap'] },
+				},
+			},
+			{
+				displayName: '包含 URL',
+				name: 'includePatterns',
+				type: 'string',
+				typeOptions: { rows: 3 },
+				default: '',
+				placeholder: '/docs/**',
+				description: '只抓取匹配任一模式的链接，每行一个，为空时不限制',
+				displayOptions: {
+					show: { crawlMode: ['site', 'sitemap'] },
+				},
+			},
+			{
+				displayName: '排除 URL',
+				name: 'excludePatterns',
+				type: 'string',
+				typeOptions: { rows: 3 },
+				default: '',
+				placeholder: '/docs/archive/**',
+				description: '不抓取匹配任一模式的链接，每行一个',
+				displayOptions: {
+					show: { crawlMode: ['site', 'sitemap'] },
+				},
+			},
+			{
+				displayName: '最后修改时间晚于',
+				name: 'lastmodAfter',
+				type: 'dateTime',
+				default: '',
+				description: '只抓取 lastmod 不早于该时间的页面，没有 lastmod 的页面保留',
+				displayOptions: {
+					show: { crawlMode: ['sitemap'] },
+				},
+			},
+			{
+				displayName: '链接选择器',
+				name: 'linkSelector',
+				type: 'string',
+				default: '',
+				placeholder: 'main a, nav.sidebar a',
+				description: '只从匹配的元素中查找链接（CSS 选择器），为空时使用页面中所有链接',
+				displayOptions: {
+					show: { crawlMode: ['site'] },
+				},
+			},
+			{
+				displayName: '提取方式',
+				name: 'extractionMode',
+				type: 'options',
+				options: [
+					{
+						name: '结构化数据',
+						value: 'structuredData',
+						description: '每页输出一条 JSON-LD、微数据、OpenGraph、标题和描述等结构化数据',
+					},
+					{
+						name: '自动识别',
+						value: 'auto',
+						description: '分析页面中重复的元素结构，输出推荐的列表选择器和字段（标题、链接、图片、日期、价格等）',
+					},
+					{
+						name: '选择器提取',
+						value: 'selectors',
+						description: '按列表选择器和字段配置提取列表数据',
+					},
+				],
+				default: 'selectors',
+			},
+			{
+				displayName: '使用最佳候选直接抓取',
+				name: 'autoCrawl',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: { extractionMode: ['auto'] },
+				},
 			},
 			{
 				displayName: '列表选择器',
@@ -73,14 +509,924 @@ export class SmartCrawler implements INodeType {
 				required: true,
 				default: '',
 				placeholder: '.item, .product-item',
-				description: '用于选择数据列表的CSS选择器',
+				description: '用于选择数据列表的CSS选择器，选择器类型为 XPath 时填写 XPath 表达式；JSON 数据填写 JSONPath，如 $.data.items[*]',
+				displayOptions: {
+					show: { crawlMode: ['list'], extractionMode: ['selectors'] },
+				},
+			},
+			{
+				displayName: '选择器类型',
+				name: 'selectorType',
+				type: 'options',
+				options: [
+					{ name: 'CSS', value: 'css' },
+					{ name: 'XPath', value: 'xpath' },
+				],
+				default: 'css',
+				description: '列表选择器、等待选择器和下一页选择器的语法，字段默认与此相同',
+				displayOptions: {
+					show: { extractionMode: ['selectors'] },
+				},
+			},
+			{
+				displayName: '响应类型',
+				name: 'responseType',
+				type: 'options',
+				options: [
+					{ name: 'HTML', value: 'html' },
+					{ name: 'JSON', value: 'json' },
+					{ name: '自动识别', value: 'auto' },
+				],
+				default: 'auto',
+				description: '列表页返回 JSON 时，列表选择器和字段选择器使用 JSONPath；浏览器模式抓取 JSON 接口请选择 JSON',
+				displayOptions: {
+					show: { extractionMode: ['selectors'] },
+				},
+			},
+			{
+				displayName: '内嵌 JSON 来源',
+				name: 'jsonSource',
+				type: 'string',
+				default: '',
+				placeholder: 'script#__NEXT_DATA__',
+				description: '把 HTML 页面中内嵌的 JSON 作为数据：script 元素的 CSS 选择器，或以 window 开头的全局变量名（如 window.__INITIAL_STATE__），填写后选择器使用 JSONPath',
+				displayOptions: {
+					show: { extractionMode: ['selectors'], responseType: ['auto', 'html'] },
+				},
+			},
+			{
+				displayName: '启用浏览器渲染',
+				name: 'useBrowser',
+				type: 'boolean',
+				default: false,
+				description: '使用 Puppeteer 渲染页面，适用于 JS 动态渲染的 SPA 页面（如 Vue/React 应用）',
+			},
+			{
+				displayName: '等待选择器',
+				name: 'waitSelector',
+				type: 'string',
+				default: '',
+				placeholder: '.item-list',
+				description: '渲染后等待该选择器出现再提取，为空则等待列表选择器',
+				displayOptions: {
+					show: { useBrowser: [true] },
+				},
+			},
+			{
+				displayName: '屏蔽资源类型',
+				name: 'blockResourceTypes',
+				type: 'multiOptions',
+				options: [
+					{ name: '媒体', value: 'media' },
+					{ name: '图片', value: 'image' },
+					{ name: '样式表', value: 'stylesheet' },
+					{ name: '字体', value: 'font' },
+				],
+				default: ['image', 'media'],
+				description: '浏览器中不加载这些资源以加快渲染、节省流量；懒加载内容依赖样式布局时取消屏蔽样式表。保存页面时默认不屏蔽图片、媒体和字体',
+				displayOptions: {
+					show: { useBrowser: [true] },
+				},
+			},
+			{
+				displayName: '屏蔽常见统计和广告',
+				name: 'blockTrackers',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: { useBrowser: [true] },
+				},
+			},
+			{
+				displayName: '屏蔽 URL',
+				name: 'blockUrls',
+				type: 'string',
+				typeOptions: { rows: 3 },
+				default: '',
+				placeholder: 'ads.example.com',
+				description: '每行一个域名（含子域名）或 Glob 模式（含 / 或 * 时匹配完整 URL）',
+				displayOptions: {
+					show: { useBrowser: [true] },
+				},
+			},
+			{
+				displayName: '浏览器操作',
+				name: 'browserActions',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true, sortable: true },
+				default: {},
+				placeholder: '添加操作',
+				description: '页面打开后、提取前按顺序执行，如关闭 Cookie 弹窗、切换标签页、填写搜索框',
+				displayOptions: {
+					show: { useBrowser: [true] },
+				},
+				options: [
+					{
+						displayName: '操作',
+						name: 'action',
+						values: [
+							{
+								displayName: '失败时继续',
+								name: 'continueOnFail',
+								type: 'boolean',
+								default: false,
+							},
+							{
+								displayName: '按键',
+								name: 'key',
+								type: 'string',
+								default: 'Enter',
+								description: '按键名，如 Enter、Escape、ArrowDown',
+								displayOptions: {
+									show: { type: ['press'] },
+								},
+							},
+							{
+								displayName: '文本',
+								name: 'text',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: { type: ['type'] },
+								},
+							},
+							{
+								displayName: '等待时间（毫秒）',
+								name: 'duration',
+								type: 'number',
+								typeOptions: { minValue: 0 },
+								default: 1000,
+								displayOptions: {
+									show: { type: ['wait'] },
+								},
+							},
+							{
+								displayName: '类型',
+								name: 'type',
+								type: 'options',
+								options: [
+									{ name: '执行脚本', value: 'evaluate' },
+									{ name: '按键', value: 'press' },
+									{ name: '滚动', value: 'scroll' },
+									{ name: '点击', value: 'click' },
+									{ name: '等待元素', value: 'waitForSelector' },
+									{ name: '等待时间', value: 'wait' },
+									{ name: '输入文本', value: 'type' },
+									{ name: '选择下拉选项', value: 'select' },
+								],
+								default: 'click',
+							},
+							{
+								displayName: '脚本',
+								name: 'script',
+								type: 'string',
+								typeOptions: { rows: 4 },
+								default: '',
+								placeholder: "document.querySelector('.modal')?.remove();",
+								description: '在页面中执行的 JavaScript（函数体，可使用 await）',
+								displayOptions: {
+									show: { type: ['evaluate'] },
+								},
+							},
+							{
+								displayName: '超时（毫秒）',
+								name: 'timeout',
+								type: 'number',
+								typeOptions: { minValue: 1 },
+								default: 15000,
+								description: '等待元素和执行脚本的超时',
+							},
+							{
+								displayName: '选择器',
+								name: 'selector',
+								type: 'string',
+								default: '',
+								placeholder: 'button.accept',
+								description: 'Puppeteer 选择器，支持 ::-p-xpath(...) 和 ::-p-text(...)；按键时先聚焦该元素，滚动时为空则滚动到页面底部',
+								displayOptions: {
+									show: { type: ['click', 'type', 'press', 'select', 'scroll', 'waitForSelector'] },
+								},
+							},
+							{
+								displayName: '选项值',
+								name: 'value',
+								type: 'string',
+								default: '',
+								description: '要选择的 option 的 value，多选时用逗号分隔',
+								displayOptions: {
+									show: { type: ['select'] },
+								},
+							},
+							{
+								displayName: '页面',
+								name: 'target',
+								type: 'options',
+								options: [
+									{ name: '列表页', value: 'list' },
+									{ name: '跳转页', value: 'jump' },
+								],
+								default: 'list',
+								description: '列表页包括分页、整站和站点地图抓取的页面；跳转页为所有跳转字段打开的页面',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: '加载更多内容',
+				name: 'infiniteScroll',
+				type: 'options',
+				options: [
+					{
+						name: '不加载',
+						value: 'none',
+					},
+					{
+						name: '滚动到底部',
+						value: 'scroll',
+						description: '不断滚动到页面底部，适用于无限滚动的信息流',
+					},
+					{
+						name: '点击加载更多按钮',
+						value: 'loadMore',
+						description: '不断点击「加载更多」按钮，按钮消失或无法点击时停止',
+					},
+				],
+				default: 'none',
+				description: '提取前加载更多列表项，直到达到目标条数、没有新的列表项或超出次数/时长上限',
+				displayOptions: {
+					show: { useBrowser: [true], crawlMode: ['list'] },
+				},
+			},
+			{
+				displayName: '加载更多按钮',
+				name: 'loadMoreSelector',
+				type: 'string',
+				required: true,
+				default: '',
+				placeholder: 'button.load-more',
+				description: '「加载更多」按钮的 Puppeteer 选择器',
+				displayOptions: {
+					show: { useBrowser: [true], crawlMode: ['list'], infiniteScroll: ['loadMore'] },
+				},
+			},
+			{
+				displayName: '加载选项',
+				name: 'scrollOptions',
+				type: 'collection',
+				placeholder: '添加选项',
+				default: {},
+				displayOptions: {
+					show: { useBrowser: [true], crawlMode: ['list'], infiniteScroll: ['scroll', 'loadMore'] },
+				},
+				options: [
+					{
+						displayName: '目标条数',
+						name: 'targetCount',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description: '列表项达到该数量时停止，0 表示使用最大条数（未设置时不限）',
+					},
+					{
+						displayName: '最多次数',
+						name: 'maxIterations',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: DEFAULT_SCROLL_ITERATIONS,
+						description: '最多滚动或点击的次数',
+					},
+					{
+						displayName: '每次等待（毫秒）',
+						name: 'waitTime',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: DEFAULT_SCROLL_WAIT,
+						description: '每次滚动或点击后等待新内容加载的时间，期间列表项没有增加时停止',
+					},
+					{
+						displayName: '最长时间（毫秒）',
+						name: 'maxDuration',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: DEFAULT_SCROLL_DURATION,
+						description: '加载更多内容的总时长上限',
+					},
+				],
+			},
+			{
+				displayName: '捕获网络响应',
+				name: 'captureResponses',
+				type: 'options',
+				options: [
+					{
+						name: '不捕获',
+						value: 'none',
+					},
+					{
+						name: '作为列表数据',
+						value: 'list',
+						description: '在捕获的 JSON 中提取列表，列表选择器和字段选择器使用 JSONPath',
+					},
+					{
+						name: '作为额外条目输出',
+						value: 'output',
+						description: '列表数据之后，每个捕获的响应输出一条，包含 URL、状态码和 JSON 数据',
+					},
+				],
+				default: 'none',
+				description: '捕获列表页加载、浏览器操作和滚动期间匹配的 XHR/fetch 请求返回的 JSON',
+				displayOptions: {
+					show: { useBrowser: [true], crawlMode: ['list'] },
+				},
+			},
+			{
+				displayName: '响应 URL',
+				name: 'capturePatterns',
+				type: 'string',
+				typeOptions: { rows: 3 },
+				required: true,
+				default: '',
+				placeholder: '/api/stories**',
+				description: '要捕获的请求 URL 模式，每行一个；Glob 中 * 不跨越 /，** 匹配任意字符，以 / 开头时匹配路径',
+				displayOptions: {
+					show: { useBrowser: [true], crawlMode: ['list'], captureResponses: ['list', 'output'] },
+				},
+			},
+			{
+				displayName: '响应 URL 语法',
+				name: 'capturePatternType',
+				type: 'options',
+				options: [
+					{ name: 'Glob', value: 'glob' },
+					{ name: '正则表达式', value: 'regex' },
+				],
+				default: 'glob',
+				displayOptions: {
+					show: { useBrowser: [true], crawlMode: ['list'], captureResponses: ['list', 'output'] },
+				},
+			},
+			{
+				displayName: '保存页面',
+				name: 'capturePages',
+				type: 'multiOptions',
+				options: [
+					{ name: 'PDF', value: 'pdf' },
+					{ name: '截图', value: 'screenshot' },
+				],
+				default: [],
+				description: '保存提取前（等待失败时为失败时）的页面，作为二进制数据输出：列表页附加在该页第一个条目上，跳转页附加在所属条目上；默认加载图片、媒体和字体，使截图完整',
+				displayOptions: {
+					show: { useBrowser: [true] },
+				},
+			},
+			{
+				displayName: '保存选项',
+				name: 'capturePageOptions',
+				type: 'collection',
+				placeholder: '添加选项',
+				default: {},
+				displayOptions: {
+					show: { useBrowser: [true] },
+				},
+				options: [
+					{
+						displayName: 'JPEG 质量',
+						name: 'quality',
+						type: 'number',
+						typeOptions: { minValue: 0, maxValue: 100 },
+						default: 80,
+					},
+					{
+						displayName: 'PDF 横向',
+						name: 'landscape',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to print the PDF in landscape orientation',
+					},
+					{
+						displayName: '仍屏蔽资源',
+						name: 'blockResources',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to keep blocking images, media and fonts selected in 屏蔽资源类型 while saving pages, for faster loading at the cost of incomplete screenshots',
+					},
+					{
+						displayName: '包含跳转页',
+						name: 'jumpPages',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to also capture the pages opened by jump fields and attach them to their items',
+					},
+					{
+						displayName: '截图元素',
+						name: 'selector',
+						type: 'string',
+						default: '',
+						placeholder: '.item-list',
+						description: '只截取该元素（Puppeteer 选择器），为空时截取页面',
+					},
+					{
+						displayName: '截图格式',
+						name: 'format',
+						type: 'options',
+						options: [
+							{ name: 'JPEG', value: 'jpeg' },
+							{ name: 'PNG', value: 'png' },
+						],
+						default: 'png',
+					},
+					{
+						displayName: '整页截图',
+						name: 'fullPage',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to capture the whole scrollable page instead of the visible viewport',
+					},
+					{
+						displayName: '纸张大小',
+						name: 'paperFormat',
+						type: 'options',
+						options: [
+							{ name: 'A3', value: 'A3' },
+							{ name: 'A4', value: 'A4' },
+							{ name: 'Legal', value: 'Legal' },
+							{ name: 'Letter', value: 'Letter' },
+						],
+						default: 'A4',
+						description: 'PDF 的纸张大小',
+					},
+				],
+			},
+			{
+				displayName: '请求方法',
+				name: 'requestMethod',
+				type: 'options',
+				options: [
+					{ name: 'DELETE', value: 'DELETE' },
+					{ name: 'GET', value: 'GET' },
+					{ name: 'PATCH', value: 'PATCH' },
+					{ name: 'POST', value: 'POST' },
+					{ name: 'PUT', value: 'PUT' },
+				],
+				default: 'GET',
+				description: '列表页的请求方法，跳转页始终使用 GET',
+			},
+			{
+				displayName: '请求头',
+				name: 'headers',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true },
+				default: {},
+				placeholder: '添加请求头',
+				description: '列表页请求附加的请求头，跳转字段默认继承',
+				options: [
+					{
+						displayName: '请求头',
+						name: 'parameter',
+						values: [
+							{
+								displayName: '名称',
+								name: 'name',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: '值',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: '查询参数',
+				name: 'queryParameters',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true },
+				default: {},
+				placeholder: '添加查询参数',
+				description: '追加到列表页 URL 的查询参数',
+				options: [
+					{
+						displayName: '查询参数',
+						name: 'parameter',
+						values: [
+							{
+								displayName: '名称',
+								name: 'name',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: '值',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: '请求体类型',
+				name: 'bodyType',
+				type: 'options',
+				options: [
+					{ name: '无', value: 'none' },
+					{ name: '表单 (Form URL Encoded)', value: 'form' },
+					{ name: 'JSON', value: 'json' },
+				],
+				default: 'none',
+				displayOptions: {
+					hide: { requestMethod: ['GET'] },
+				},
+			},
+			{
+				displayName: '表单参数',
+				name: 'bodyParameters',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true },
+				default: {},
+				placeholder: '添加参数',
+				description: '以 application/x-www-form-urlencoded 发送的请求体',
+				displayOptions: {
+					show: { bodyType: ['form'] },
+					hide: { requestMethod: ['GET'] },
+				},
+				options: [
+					{
+						displayName: '参数',
+						name: 'parameter',
+						values: [
+							{
+								displayName: '名称',
+								name: 'name',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: '值',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'JSON 请求体',
+				name: 'jsonBody',
+				type: 'json',
+				default: '{}',
+				displayOptions: {
+					show: { bodyType: ['json'] },
+					hide: { requestMethod: ['GET'] },
+				},
+			},
+			{
+				displayName: '分页方式',
+				name: 'paginationMode',
+				type: 'options',
+				options: [
+					{ name: '不分页', value: 'none' },
+					{ name: '下一页选择器', value: 'nextSelector' },
+					{ name: 'URL 页码模板', value: 'urlTemplate' },
+					{ name: 'Offset/Limit 参数', value: 'offset' },
+				],
+				default: 'none',
+				description: '列表跨多页时的翻页方式，各页数据合并输出并附带 _pageUrl 和 _pageNumber',
+				displayOptions: {
+					show: { crawlMode: ['list'] },
+				},
+			},
+			{
+				displayName: '下一页选择器',
+				name: 'nextSelector',
+				type: 'string',
+				default: '',
+				placeholder: 'a.next, .pagination .next a',
+				description: '下一页链接的选择器，语法与列表选择器相同（JSON 数据为 JSONPath，如 $.next），找不到时停止翻页',
+				displayOptions: {
+					show: { paginationMode: ['nextSelector'] },
+				},
+			},
+			{
+				displayName: 'URL 页码模板',
+				name: 'pageUrlTemplate',
+				type: 'string',
+				default: '',
+				placeholder: '?page={n}',
+				description: '包含 {n} 的页面地址，相对地址基于页面链接解析',
+				displayOptions: {
+					show: { paginationMode: ['urlTemplate'] },
+				},
+			},
+			{
+				displayName: '起始页码',
+				name: 'startPage',
+				type: 'number',
+				default: 1,
+				displayOptions: {
+					show: { paginationMode: ['urlTemplate'] },
+				},
+			},
+			{
+				displayName: '结束页码',
+				name: 'endPage',
+				type: 'number',
+				default: 0,
+				description: '包含该页，0 表示不限制（仍受最大页数限制）',
+				displayOptions: {
+					show: { paginationMode: ['urlTemplate'] },
+				},
+			},
+			{
+				displayName: 'Offset 参数名',
+				name: 'offsetParam',
+				type: 'string',
+				default: 'offset',
+				displayOptions: {
+					show: { paginationMode: ['offset'] },
+				},
+			},
+			{
+				displayName: 'Limit 参数名',
+				name: 'limitParam',
+				type: 'string',
+				default: 'limit',
+				displayOptions: {
+					show: { paginationMode: ['offset'] },
+				},
+			},
+			{
+				displayName: '每页条数',
+				name: 'pageSize',
+				type: 'number',
+				default: 20,
+				displayOptions: {
+					show: { paginationMode: ['offset'] },
+				},
+			},
+			{
+				displayName: '最大页数',
+				name: 'maxPages',
+				type: 'number',
+				default: DEFAULT_MAX_PAGES,
+				description: '最多抓取的页数，某页没有匹配列表项时也会提前停止',
+				displayOptions: {
+					hide: { paginationMode: ['none'] },
+				},
+			},
+			{
+				displayName: '最大条数',
+				name: 'maxItems',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				default: 0,
+				description: '最多输出的列表项数（含分页），0 表示不限',
+			},
+			{
+				displayName: '只输出新条目',
+				name: 'onlyNewItems',
+				type: 'boolean',
+				default: false,
+			},
+			{
+				displayName: '增量选项',
+				name: 'incrementalOptions',
+				type: 'collection',
+				placeholder: '添加选项',
+				default: {},
+				displayOptions: {
+					show: {
+						onlyNewItems: [true],
+					},
+				},
+				options: [
+					{
+						displayName: '唯一键字段',
+						name: 'keyFields',
+						type: 'string',
+						default: '',
+						placeholder: '例如：link 或 title,author',
+						description: '用于判断是否为同一条目的字段名，多个字段用逗号分隔（取哈希），支持 detail.link 形式的嵌套路径；为空时使用所有字段',
+					},
+					{
+						displayName: '最多记录条数',
+						name: 'maxKeys',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 1000,
+						description: '最多记录的已输出条目数，超出时遗忘最久未出现的条目',
+					},
+					{
+						displayName: '有效期（小时）',
+						name: 'ttlHours',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description: '超过该时间未再出现的条目被遗忘，再次出现时作为新条目输出，0 表示不过期',
+					},
+					{
+						displayName: '重置已输出记录',
+						name: 'resetSeen',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to clear the output records once, on the first run after this is switched on. Later runs keep recording while it stays on; switch it off and on again to reset again.',
+					},
+				],
+			},
+			{
+				displayName: '对比上次结果',
+				name: 'detectChanges',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						onlyNewItems: [false],
+					},
+				},
+			},
+			{
+				displayName: '唯一键字段',
+				name: 'changeKeyFields',
+				type: 'string',
+				required: true,
+				default: '',
+				placeholder: '例如：link 或 title,author',
+				description: '用于对应上次结果中同一条目的字段名，多个字段用逗号分隔，支持 detail.link 形式的嵌套路径',
+				displayOptions: {
+					show: {
+						onlyNewItems: [false],
+						detectChanges: [true],
+					},
+				},
+			},
+			{
+				displayName: '变化检测选项',
+				name: 'changeOptions',
+				type: 'collection',
+				placeholder: '添加选项',
+				default: {},
+				displayOptions: {
+					show: {
+						onlyNewItems: [false],
+						detectChanges: [true],
+					},
+				},
+				options: [
+					{
+						displayName: '最多记录条数',
+						name: 'maxKeys',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 1000,
+						description: '每个页面链接最多保存的上次结果条数，超出的条目下次作为新增输出',
+					},
+					{
+						displayName: '有效期（小时）',
+						name: 'ttlHours',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description: '超过该时间未再抓取的页面链接的上次结果被遗忘，0 表示不过期',
+					},
+					{
+						displayName: '比较字段',
+						name: 'compareFields',
+						type: 'string',
+						default: '',
+						placeholder: '例如：price,stock',
+						description: '只比较这些字段，多个字段用逗号分隔；为空时比较所有字段',
+					},
+					{
+						displayName: '输出类型',
+						name: 'outputTypes',
+						type: 'multiOptions',
+						options: [
+							{ name: '删除', value: 'removed' },
+							{ name: '变化', value: 'changed' },
+							{ name: '新增', value: 'added' },
+							{ name: '未变化', value: 'unchanged' },
+						],
+						default: ['added', 'changed', 'removed'],
+						description: '输出哪些变化类型的条目',
+					},
+					{
+						displayName: '重置上次结果',
+						name: 'resetSnapshot',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to clear the saved results once, on the first run after this is switched on. Later runs compare as usual while it stays on; switch it off and on again to reset again.',
+					},
+				],
 			},
 			{
-				displayName: '启用浏览器渲染',
-				name: 'useBrowser',
-				type: 'boolean',
-				default: false,
-				description: '使用 Puppeteer 渲染页面，适用于 JS 动态渲染的 SPA 页面（如 Vue/React 应用）',
+				displayName: '请求选项',
+				name: 'requestOptions',
+				type: 'collection',
+				placeholder: '添加选项',
+				default: {},
+				description: '整个执行共享的并发与限速设置',
+				options: [
+					{
+						displayName: '最大尝试次数',
+						name: 'retryMaxAttempts',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 1,
+						description: '每个请求的总尝试次数（含首次），1 表示不重试',
+					},
+					{
+						displayName: '最小请求间隔（毫秒）',
+						name: 'minDelay',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description: '同一域名两次请求之间的最小间隔',
+					},
+					{
+						displayName: '可重试状态码',
+						name: 'retryStatusCodes',
+						type: 'string',
+						default: DEFAULT_RETRY_STATUS_CODES.join(','),
+						description: '逗号分隔的 HTTP 状态码',
+					},
+					{
+						displayName: '可重试错误码',
+						name: 'retryErrorCodes',
+						type: 'string',
+						default: DEFAULT_RETRY_ERROR_CODES.join(','),
+						description: '逗号分隔的网络错误码，如 ECONNRESET、ETIMEDOUT',
+					},
+					{
+						displayName: '响应编码',
+						name: 'encoding',
+						type: 'options',
+						options: [
+							{ name: 'Big5', value: 'big5' },
+							{ name: 'EUC-JP', value: 'euc-jp' },
+							{ name: 'EUC-KR', value: 'euc-kr' },
+							{ name: 'GB18030', value: 'gb18030' },
+							{ name: 'GBK / GB2312', value: 'gbk' },
+							{ name: 'Shift_JIS', value: 'shift_jis' },
+							{ name: 'UTF-8', value: 'utf-8' },
+							{ name: '自动识别', value: 'auto' },
+						],
+						default: 'auto',
+						description: '静态模式下列表页和跳转页的编码，自动识别时依次使用 Content-Type、页面中的 meta charset 和内容探测，都无法确定时按 UTF-8',
+					},
+					{
+						displayName: '并发数',
+						name: 'concurrency',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 1,
+						description: '同时处理的列表项数，跳转页面会并发抓取，输出顺序与列表一致',
+					},
+					{
+						displayName: '每秒最大请求数',
+						name: 'maxRequestsPerSecond',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description: '同一域名每秒最多发出的请求数，0 表示不限',
+					},
+					{
+						displayName: '遵守 robots.txt',
+						name: 'respectRobots',
+						type: 'boolean',
+						default: false,
+					},
+					{
+						displayName: '重试初始等待（毫秒）',
+						name: 'retryBaseDelay',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 1000,
+						description: '首次重试前的等待时间，429/503 响应带 Retry-After 时以其为准',
+					},
+					{
+						displayName: '重试退避倍数',
+						name: 'retryBackoffFactor',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 2,
+						description: '每次重试的等待时间是上一次的倍数',
+					},
+					{
+						displayName: '随机延迟（毫秒）',
+						name: 'jitter',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description: '每次请求额外增加 0 到该值之间的随机延迟',
+					},
+				],
 			},
 			{
 				displayName: '字段配置',
@@ -90,6 +1436,9 @@ export class SmartCrawler implements INodeType {
 					multipleValues: true,
 				},
 				default: {},
+				displayOptions: {
+					show: { extractionMode: ['selectors'] },
+				},
 				options: [
 					{
 						displayName: '字段',
@@ -110,7 +1459,11 @@ export class SmartCrawler implements INodeType {
 								required: true,
 								default: '',
 								placeholder: '.title, #name',
-								description: 'CSS选择器，用于定位元素',
+								description: 'CSS选择器或 XPath 表达式，用于定位元素；XPath 相对路径（如 .//h2）相对于当前列表项',
+							},
+							{
+								...fieldSelectorTypeProperty,
+								description: '选择器、点击选择器和目标选择器的语法',
 							},
 							{
 								displayName: '提取类型',
@@ -155,6 +1508,15 @@ export class SmartCrawler implements INodeType {
 								default: 'normal',
 								description: '普通字段直接提取值，跳转字段会跳转到新页面提取数据',
 							},
+							multipleProperty,
+							{
+								...separatorProperty,
+								displayOptions: {
+									show: { fieldType: ['normal'], multiple: [true] },
+								},
+							},
+							maxCountProperty,
+							transformsProperty,
 							// ---- 跳转字段配置 ----
 							{
 								displayName: '点击元素选择器',
@@ -162,7 +1524,17 @@ export class SmartCrawler implements INodeType {
 								type: 'string',
 								default: '',
 								placeholder: 'a.detail-link',
-								description: '用于查找跳转链接的选择器（在字段选择器元素内查找）',
+								description: '用于查找跳转链接的选择器（在字段选择器元素内查找）；浏览器模式下找不到链接时在对应列表项内点击该元素跳转',
+								displayOptions: {
+									show: { fieldType: ['jump'] },
+								},
+							},
+							{
+								displayName: '跳转 URL 模板',
+								name: 'urlTemplate',
+								type: 'string',
+								default: '',
+								description: '元素只有 data-ID 等属性而没有链接时，用来构造跳转 URL 的模板，其中的占位符会替换为该属性值',
 								displayOptions: {
 									show: { fieldType: ['jump'] },
 								},
@@ -178,6 +1550,71 @@ export class SmartCrawler implements INodeType {
 									show: { fieldType: ['jump'] },
 								},
 							},
+							{
+								displayName: '跳转页响应类型',
+								name: 'responseType',
+								type: 'options',
+								options: [
+									{ name: 'HTML', value: 'html' },
+									{ name: 'JSON', value: 'json' },
+									{ name: '自动识别', value: 'auto' },
+								],
+								default: 'auto',
+								description: '跳转页返回 JSON 时，目标页面数据选择器和跳转页面字段使用 JSONPath',
+								displayOptions: {
+									show: { fieldType: ['jump'] },
+								},
+							},
+							{
+								displayName: '跳转页内嵌 JSON 来源',
+								name: 'jsonSource',
+								type: 'string',
+								default: '',
+								placeholder: 'script#__NEXT_DATA__',
+								description: '把跳转页中内嵌的 JSON 作为数据，写法同内嵌 JSON 来源，填写后目标页面数据选择器和跳转页面字段使用 JSONPath',
+								displayOptions: {
+									show: { fieldType: ['jump'], responseType: ['auto', 'html'] },
+								},
+							},
+							{
+								displayName: '输出结构化数据',
+								name: 'structuredData',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: { fieldType: ['jump'] },
+								},
+							},
+							{
+								displayName: '结构化数据类型',
+								name: 'structuredType',
+								type: 'string',
+								default: '',
+								placeholder: 'Product',
+								description: '只输出该 @type 的第一个对象，为空则输出跳转页的全部结构化数据；开启后忽略目标页面数据选择器和跳转页面字段',
+								displayOptions: {
+									show: { fieldType: ['jump'], structuredData: [true] },
+								},
+							},
+							{
+								displayName: '继承列表页请求头',
+								name: 'inheritHeaders',
+								type: 'boolean',
+								default: true,
+								displayOptions: {
+									show: { fieldType: ['jump'] },
+								},
+							},
+							{
+								displayName: '跳转页请求头',
+								name: 'jumpHeaders',
+								type: 'json',
+								default: '{}',
+								description: '跳转页请求附加的请求头（JSON 对象），同名时覆盖继承的请求头',
+								displayOptions: {
+									show: { fieldType: ['jump'] },
+								},
+							},
 							{
 								displayName: '跳转页面字段',
 								name: 'jumpFields',
@@ -192,6 +1629,8 @@ export class SmartCrawler implements INodeType {
 										displayName: '字段',
 										name: 'field',
 										values: [
+											maxCountProperty,
+											transformsProperty,
 											{
 												displayName: '字段名称',
 												name: 'name',
@@ -200,12 +1639,15 @@ export class SmartCrawler implements INodeType {
 												default: '',
 											},
 											{
-												displayName: '选择器',
-												name: 'selector',
+												displayName: '属性名',
+												name: 'attribute',
 												type: 'string',
-												required: true,
 												default: '',
+												displayOptions: {
+													show: { type: ['attribute'] },
+												},
 											},
+											multipleProperty,
 											{
 												displayName: '提取类型',
 												name: 'type',
@@ -217,15 +1659,15 @@ export class SmartCrawler implements INodeType {
 												],
 												default: 'text',
 											},
+											separatorProperty,
 											{
-												displayName: '属性名',
-												name: 'attribute',
+												displayName: '选择器',
+												name: 'selector',
 												type: 'string',
+												required: true,
 												default: '',
-												displayOptions: {
-													show: { type: ['attribute'] },
-												},
 											},
+											fieldSelectorTypeProperty,
 										],
 									},
 								],
@@ -234,294 +1676,538 @@ export class SmartCrawler implements INodeType {
 					},
 				],
 			},
+			{
+				displayName: '高级字段配置',
+				name: 'advancedFields',
+				type: 'json',
+				default: '[]',
+				description: '以 JSON 数组配置字段，格式同 CrawlerEngine 的 FieldConfig，支持最多 3 层嵌套跳转，追加在字段配置之后',
+				displayOptions: {
+					show: { extractionMode: ['selectors'] },
+				},
+			},
 		],
 	};
 
+	methods = {
+		credentialTest: {
+			/**
+			 * 凭证不绑定具体站点，只校验配置是否完整
+			 */
+			async smartCrawlerAuthApiTest(
+				this: ICredentialTestFunctions,
+				credential: ICredentialsDecrypted,
+			): Promise<INodeCredentialTestResult> {
+				const data = credential.data ?? {};
+				try {
+					const auth = credentialsToAuth(data);
+					const missing =
+						(data.authType === 'bearer' && !data.token) ||
+						(data.authType === 'apiKey' && !data.apiKey) ||
+						(data.authType === 'basic' && !auth.basicAuth?.username);
+					if (missing) {
+						return { status: 'Error', message: '所选认证方式缺少必填项' };
+					}
+				} catch (error) {
+					return { status: 'Error', message: `其他请求头不是合法的 JSON: ${(error as Error).message}` };
+				}
+				return { status: 'OK', message: '配置有效' };
+			},
+
+			async smartCrawlerProxyApiTest(
+				this: ICredentialTestFunctions,
+				credential: ICredentialsDecrypted,
+			): Promise<INodeCredentialTestResult> {
+				try {
+					const proxies = new ProxyRotator(credentialsToProxies(credential.data));
+					if (proxies.size === 0) {
+						return { status: 'Error', message: '代理地址不能为空' };
+					}
+				} catch (error) {
+					return { status: 'Error', message: `代理地址无效: ${(error as Error).message}` };
+				}
+				return { status: 'OK', message: '配置有效' };
+			},
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const requestOptions = this.getNodeParameter('requestOptions', 0, {}) as RequestOptions;
+		const concurrency = requestOptions.concurrency || 1;
+		const proxyCredentials = this.getNodeParameter('proxy', 0, 'none') === 'smartCrawlerProxyApi'
+			? await this.getCredentials('smartCrawlerProxyApi', 0)
+			: undefined;
+		const proxies = credentialsToProxies(proxyCredentials);
+		let proxy: ProxyRotator;
+		try {
+			proxy = new ProxyRotator(proxies);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error as Error);
+		}
+		// 整个执行共享一个浏览器（首次使用时才启动）、按域名的限速器和代理轮换
+		const browser = new BrowserSession({ maxPages: concurrency, proxy: proxies[0] });
+		const limiter = new HostRateLimiter(requestOptions);
+		const robots = requestOptions.respectRobots ? new RobotsChecker() : undefined;
+		const retry = SmartCrawler.getRetryPolicy(requestOptions);
+		// 增量抓取：已输出条目的唯一键保存在节点的工作流静态数据中（仅正式执行时持久化）
+		const incremental = this.getNodeParameter('onlyNewItems', 0, false)
+			? SmartCrawler.getIncrementalConfig(this)
+			: undefined;
+		const changeDetection = !incremental && this.getNodeParameter('detectChanges', 0, false)
+			? SmartCrawler.getChangeDetectionConfig(this)
+			: undefined;
 
-		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
-			try {
-				const url = this.getNodeParameter('url', itemIndex, '') as string;
-				const cookie = this.getNodeParameter('cookie', itemIndex, '') as string;
-				const listSelector = this.getNodeParameter('listSelector', itemIndex, '') as string;
-				const useBrowser = this.getNodeParameter('useBrowser', itemIndex, false) as boolean;
-				const fieldsData = this.getNodeParameter('fields', itemIndex, {}) as FieldsData;
+		try {
+			for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+				// 本输入项所有失败的请求尝试
+				let attempts: FetchAttempt[] = [];
+				// 列表页的截图/PDF，失败时也附加在错误条目上以便排查
+				let pageCaptures: PageCapture[] = [];
 
-				if (!url) {
-					throw new NodeOperationError(this.getNode(), '页面链接不能为空', { itemIndex });
-				}
-				if (!listSelector) {
-					throw new NodeOperationError(this.getNode(), '列表选择器不能为空', { itemIndex });
-				}
+				try {
+					const url = this.getNodeParameter('url', itemIndex, '') as string;
+					const cookie = this.getNodeParameter('cookie', itemIndex, '') as string;
+					const authentication = this.getNodeParameter('authentication', itemIndex, 'none') as string;
+					const crawlMode = this.getNodeParameter('crawlMode', itemIndex, 'list') as string;
+					const extractionMode = this.getNodeParameter('extractionMode', itemIndex, 'selectors') as string;
+					const structuredData = extractionMode === 'structuredData';
+					const autoDetect: AutoDetectMode | undefined = extractionMode === 'auto'
+						? (this.getNodeParameter('autoCrawl', itemIndex, false) ? 'crawl' : 'suggest')
+						: undefined;
+					const listSelector = this.getNodeParameter('listSelector', itemIndex, '') as string;
+					const selectorType = this.getNodeParameter('selectorType', itemIndex, 'css') as SelectorType;
+					const responseType = this.getNodeParameter('responseType', itemIndex, 'auto') as ResponseType;
+					const useBrowser = this.getNodeParameter('useBrowser', itemIndex, false) as boolean;
+					const maxItems = this.getNodeParameter('maxItems', itemIndex, 0) as number;
+					const fieldsData = this.getNodeParameter('fields', itemIndex, {}) as FieldsData;
+					const credentials = authentication === 'smartCrawlerAuthApi'
+						? await this.getCredentials('smartCrawlerAuthApi', itemIndex)
+						: undefined;
 
-				// 解析字段配置
-				let fields: FieldData[] = [];
-				if (fieldsData && typeof fieldsData === 'object') {
-					if ('field' in fieldsData) {
-						const fv = fieldsData.field;
-						if (Array.isArray(fv)) {
-							fields = fv;
-						} else if (fv && typeof fv === 'object') {
-							fields = [fv as FieldData];
-						}
-					} else if (Array.isArray(fieldsData)) {
-						fields = fieldsData as FieldData[];
+					if (!url) {
+						throw new NodeOperationError(this.getNode(), '页面链接不能为空', { itemIndex });
 					}
-				}
-
-				// 获取页面 HTML
-				let pageHtml: string;
-
-				if (useBrowser) {
-					const puppeteer = await import('puppeteer');
-					const browser = await puppeteer.default.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox'] });
-					try {
-						const page = await browser.newPage();
-						if (cookie) {
-							const cookies = cookie.split(';').map(c => {
-								const [name, ...rest] = c.trim().split('=');
-								return { name: name.trim(), value: rest.join('=').trim(), domain: new URL(url).hostname };
-							}).filter(c => c.name && c.value);
-							if (cookies.length) await page.setCookie(...cookies);
-						}
-						await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
-						await page.waitForSelector(listSelector, { timeout: 15000 });
-						pageHtml = await page.content();
-					} finally {
-						await browser.close();
+					if (crawlMode !== 'list' && autoDetect) {
+						throw new NodeOperationError(this.getNode(), '整站抓取和站点地图不支持自动识别', { itemIndex });
+					}
+					if (!listSelector && extractionMode === 'selectors' && crawlMode === 'list') {
+						throw new NodeOperationError(this.getNode(), '列表选择器不能为空', { itemIndex });
 					}
-				} else {
-					const response = await axios.get(url, {
-						headers: {
-							...(cookie && { Cookie: cookie }),
-							'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-						},
-					});
-					pageHtml = response.data;
-				}
-
-				const $ = cheerio.load(pageHtml);
-				const listItems = $(listSelector);
-
-				if (listItems.length === 0) {
-					throw new NodeOperationError(
-						this.getNode(),
-						`未找到匹配列表选择器 "${listSelector}" 的元素`,
-						{ itemIndex },
-					);
-				}
 
-				// 处理每个列表项
-				for (let i = 0; i < listItems.length; i++) {
-					const listItem = listItems.eq(i);
-					const itemData: Record<string, unknown> = {};
-
-					for (const field of fields) {
-						try {
-							if (field.fieldType === 'jump') {
-								itemData[field.name] = await SmartCrawler.extractJumpField(
-									listItem, field, url, cookie, useBrowser,
-								);
-							} else {
-								itemData[field.name] = SmartCrawler.extractNormalField(
-									listItem, field,
-								);
-							}
-						} catch (error) {
-							if (this.continueOnFail()) {
-								itemData[field.name] = null;
-							} else {
-								throw error;
+					// 解析字段配置
+					let fields: FieldData[] = [];
+					if (fieldsData && typeof fieldsData === 'object') {
+						if ('field' in fieldsData) {
+							const fv = fieldsData.field;
+							if (Array.isArray(fv)) {
+								fields = fv;
+							} else if (fv && typeof fv === 'object') {
+								fields = [fv as FieldData];
 							}
+						} else if (Array.isArray(fieldsData)) {
+							fields = fieldsData as FieldData[];
 						}
 					}
 
-					returnData.push({
-						json: itemData as IDataObject,
-						pairedItem: { item: itemIndex },
-					});
-				}
-			} catch (error) {
-				if (this.continueOnFail()) {
-					returnData.push({
-						json: { error: (error as Error).message },
-						pairedItem: { item: itemIndex },
+					const result = await CrawlerEngine.crawl({
+						url,
+						listSelector,
+						selectorType,
+						responseType,
+						jsonSource: responseType === 'json'
+							? undefined
+							: this.getNodeParameter('jsonSource', itemIndex, '') as string || undefined,
+						structuredData,
+						autoDetect,
+						site: crawlMode === 'site' ? SmartCrawler.getSiteCrawlConfig(this, itemIndex) : undefined,
+						sitemap: crawlMode === 'sitemap' ? SmartCrawler.getSitemapConfig(this, itemIndex) : undefined,
+						respectRobots: requestOptions.respectRobots,
+						encoding: requestOptions.encoding,
+						fields: extractionMode !== 'selectors' ? [] : [
+							...fields.map(SmartCrawler.toFieldConfig),
+							...SmartCrawler.getAdvancedFields(this, itemIndex),
+						],
+						auth: SmartCrawler.getAuth(this, itemIndex, credentials, cookie),
+						useBrowser,
+						waitSelector: useBrowser
+							? this.getNodeParameter('waitSelector', itemIndex, '') as string
+							: undefined,
+						...(useBrowser && SmartCrawler.getBrowserActions(this, itemIndex)),
+						blockResources: useBrowser ? SmartCrawler.getResourceBlockConfig(this, itemIndex) : undefined,
+						captureResponses: useBrowser && crawlMode === 'list'
+							? SmartCrawler.getResponseCaptureConfig(this, itemIndex)
+							: undefined,
+						infiniteScroll: useBrowser && crawlMode === 'list'
+							? SmartCrawler.getInfiniteScrollConfig(this, itemIndex)
+							: undefined,
+						capturePages: useBrowser ? SmartCrawler.getPageCaptureConfig(this, itemIndex) : undefined,
+						maxItems: maxItems > 0 ? maxItems : undefined,
+						pagination: crawlMode === 'list' ? SmartCrawler.getPaginationConfig(this, itemIndex) : undefined,
+						concurrency,
+						retry,
+						request: SmartCrawler.getRequestConfig(this, itemIndex),
+						// 未启用「出错时继续」时，任一字段出错即中止本输入项
+						strict: !this.continueOnFail(),
+						session: { browser, limiter, proxy, robots },
 					});
-				} else {
-					throw new NodeOperationError(this.getNode(), error as Error, { itemIndex });
+
+					attempts = result.diagnostics;
+					pageCaptures = result.pageCaptures ?? [];
+					for (const attempt of attempts) {
+						this.logger?.warn(`Smart Crawler 请求失败(第${attempt.attempt}次) ${attempt.url}: ${attempt.error}`);
+					}
+					for (const { reason } of result.skipped) {
+						this.logger?.info(`Smart Crawler 跳过: ${reason}`);
+					}
+					if (!result.success) {
+						throw new NodeOperationError(this.getNode(), result.errors[result.errors.length - 1], { itemIndex });
+					}
+
+					// 只识别不抓取时每个列表候选输出一条
+					let output: Array<Record<string, unknown>> = autoDetect === 'suggest'
+						? (result.suggestions ?? []).map((suggestion) => ({ ...suggestion }))
+						: result.data;
+					if (incremental && autoDetect !== 'suggest') {
+						output = filterNewItems(output, incremental.state, incremental.config);
+					}
+					// 按页面链接分别与上次结果对比
+					if (changeDetection && autoDetect !== 'suggest') {
+						output = diffItems(output, changeDetection.state, url, changeDetection.config);
+						// 跳转页的截图/PDF 只随本次输出，不保存到上次结果中
+						for (const [, item] of changeDetection.state.snapshots?.[url] ?? []) delete item._captures;
+					}
+					if (this.getNodeParameter('captureResponses', itemIndex, 'none') === 'output') {
+						output = [
+							...output,
+							...(result.responses ?? []).map(({ url, status, data, pageUrl }) => ({ url, status, data, _pageUrl: pageUrl })),
+						];
+					}
+					// 被 robots.txt 禁止的页面每个输出一条
+					output = [...output, ...result.skipped.map(({ url, reason }) => ({ url, _skipped: reason }))];
+					for (const { _captures, ...itemData } of output) {
+						returnData.push({
+							json: itemData as IDataObject,
+							...(Array.isArray(_captures) && {
+								binary: await SmartCrawler.prepareCaptures(this, _captures as PageCapture[]),
+							}),
+							pairedItem: { item: itemIndex },
+						});
+					}
+					// 没有条目的列表页（如只识别列表时）的截图/PDF 每页输出一条
+					const capturesByPage = new Map<string, PageCapture[]>();
+					for (const capture of pageCaptures) {
+						capturesByPage.set(capture.url, [...(capturesByPage.get(capture.url) ?? []), capture]);
+					}
+					for (const [pageUrl, captures] of capturesByPage) {
+						returnData.push({
+							json: { _pageUrl: pageUrl },
+							binary: await SmartCrawler.prepareCaptures(this, captures),
+							pairedItem: { item: itemIndex },
+						});
+					}
+				} catch (error) {
+					if (this.continueOnFail()) {
+						returnData.push({
+							json: {
+								error: (error as Error).message,
+								...(attempts.length && { attempts }),
+							} as IDataObject,
+							...(pageCaptures.length && { binary: await SmartCrawler.prepareCaptures(this, pageCaptures) }),
+							pairedItem: { item: itemIndex },
+						});
+					} else {
+						throw new NodeOperationError(this.getNode(), error as Error, { itemIndex });
+					}
 				}
 			}
+		} finally {
+			await browser.close();
 		}
 
 		return [returnData];
 	}
 
 	/**
-	 * 提取普通字段
+	 * 读取分页配置，不分页时返回 undefined
 	 */
-	private static extractNormalField(
-		listItem: cheerio.Cheerio<AnyNode>,
-		field: FieldData,
-	): string | null {
-		const el = listItem.find(field.selector).first();
-		if (el.length === 0) return null;
-
-		const type = field.type || 'text';
-		switch (type) {
-			case 'text': return el.text().trim() || null;
-			case 'html': return el.html() || null;
-			case 'attribute': return field.attribute ? el.attr(field.attribute) || null : null;
-			default: return null;
-		}
+	private static getPaginationConfig(
+		ctx: IExecuteFunctions,
+		itemIndex: number,
+	): PaginationConfig | undefined {
+		const mode = ctx.getNodeParameter('paginationMode', itemIndex, 'none') as PaginationMode | 'none';
+		if (mode === 'none') return undefined;
+
+		const endPage = ctx.getNodeParameter('endPage', itemIndex, 0) as number;
+		return {
+			mode,
+			nextSelector: ctx.getNodeParameter('nextSelector', itemIndex, '') as string,
+			urlTemplate: ctx.getNodeParameter('pageUrlTemplate', itemIndex, '') as string,
+			startPage: ctx.getNodeParameter('startPage', itemIndex, 1) as number,
+			endPage: endPage > 0 ? endPage : undefined,
+			offsetParam: ctx.getNodeParameter('offsetParam', itemIndex, 'offset') as string,
+			limitParam: ctx.getNodeParameter('limitParam', itemIndex, 'limit') as string,
+			pageSize: ctx.getNodeParameter('pageSize', itemIndex, 20) as number,
+			maxPages: ctx.getNodeParameter('maxPages', itemIndex, DEFAULT_MAX_PAGES) as number,
+		};
 	}
 
 	/**
-	 * 提取跳转字段 - 跳转到新页面并提取子字段
+	 * 读取整站抓取配置
 	 */
-	private static async extractJumpField(
-		listItem: cheerio.Cheerio<AnyNode>,
-		field: FieldData,
-		baseUrl: string,
-		cookie: string,
-		useBrowser: boolean,
-	): Promise<Record<string, unknown> | string | null> {
-		const el = listItem.find(field.selector).first();
-		if (el.length === 0) return null;
-
-		// 查找跳转链接
-		const jumpUrl = SmartCrawler.findJumpUrl(el, field.clickSelector || '', baseUrl);
-		if (!jumpUrl) return null;
-
-		// 获取跳转页面
-		let jumpHtml: string;
-
-		if (useBrowser) {
-			const puppeteer = await import('puppeteer');
-			const browser = await puppeteer.default.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox'] });
-			try {
-				const page = await browser.newPage();
-				if (cookie) {
-					const cookies = cookie.split(';').map(c => {
-						const [name, ...rest] = c.trim().split('=');
-						return { name: name.trim(), value: rest.join('=').trim(), domain: new URL(jumpUrl).hostname };
-					}).filter(c => c.name && c.value);
-					if (cookies.length) await page.setCookie(...cookies);
-				}
-				await page.goto(jumpUrl, { waitUntil: 'networkidle2', timeout: 30000 });
-				if (field.targetSelector) {
-					await page.waitForSelector(field.targetSelector, { timeout: 15000 }).catch(() => {});
-				}
-				jumpHtml = await page.content();
-			} finally {
-				await browser.close();
-			}
-		} else {
-			const res = await axios.get(jumpUrl, {
-				headers: {
-					...(cookie && { Cookie: cookie }),
-					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-				},
-			});
-			jumpHtml = res.data;
-		}
+	private static getSiteCrawlConfig(ctx: IExecuteFunctions, itemIndex: number): SiteCrawlConfig {
+		return {
+			...SmartCrawler.getUrlFilterConfig(ctx, itemIndex),
+			maxDepth: ctx.getNodeParameter('maxDepth', itemIndex, DEFAULT_SITE_MAX_DEPTH) as number,
+			maxPages: ctx.getNodeParameter('siteMaxPages', itemIndex, DEFAULT_SITE_MAX_PAGES) as number,
+			linkSelector: ctx.getNodeParameter('linkSelector', itemIndex, '') as string || undefined,
+		};
+	}
 
-		const $j = cheerio.load(jumpHtml);
-		const target = field.targetSelector
-			? $j(field.targetSelector).first()
-			: $j('body');
+	/**
+	 * 读取站点地图配置
+	 */
+	private static getSitemapConfig(ctx: IExecuteFunctions, itemIndex: number): SitemapConfig {
+		return {
+			...SmartCrawler.getUrlFilterConfig(ctx, itemIndex),
+			maxPages: ctx.getNodeParameter('siteMaxPages', itemIndex, DEFAULT_SITE_MAX_PAGES) as number,
+			lastmodAfter: ctx.getNodeParameter('lastmodAfter', itemIndex, '') as string || undefined,
+		};
+	}
 
-		if (target.length === 0) return null;
+	/**
+	 * 读取整站抓取和站点地图共用的包含/排除 URL 模式
+	 */
+	private static getUrlFilterConfig(ctx: IExecuteFunctions, itemIndex: number): UrlFilterConfig {
+		const parseLines = (name: string) =>
+			(ctx.getNodeParameter(name, itemIndex, '') as string).split('\n').map((p) => p.trim()).filter(Boolean);
 
-		// 提取子字段
-		const subFields = SmartCrawler.parseJumpSubFields(field.jumpFields);
+		return {
+			include: parseLines('includePatterns'),
+			exclude: parseLines('excludePatterns'),
+			patternType: ctx.getNodeParameter('urlPatternType', itemIndex, 'glob') as UrlPatternType,
+		};
+	}
 
-		if (subFields.length > 0) {
-			const result: Record<string, unknown> = {};
-			for (const sf of subFields) {
-				const subEl = target.find(sf.selector).first();
-				if (subEl.length === 0) {
-					result[sf.name] = null;
-					continue;
-				}
-				switch (sf.type || 'text') {
-					case 'text': result[sf.name] = subEl.text().trim() || null; break;
-					case 'html': result[sf.name] = subEl.html() || null; break;
-					case 'attribute': result[sf.name] = sf.attribute ? subEl.attr(sf.attribute) || null : null; break;
-					default: result[sf.name] = null;
-				}
-			}
-			return result;
+	/**
+	 * 读取浏览器操作，按页面分为列表页和跳转页两组
+	 */
+	private static getBrowserActions(
+		ctx: IExecuteFunctions,
+		itemIndex: number,
+	): { actions: BrowserAction[]; jumpActions: BrowserAction[] } {
+		const data = ctx.getNodeParameter('browserActions', itemIndex, {}) as { action?: BrowserActionData[] };
+		const actions: BrowserAction[] = [];
+		const jumpActions: BrowserAction[] = [];
+		for (const { target, ...action } of data.action ?? []) {
+			(target === 'jump' ? jumpActions : actions).push(action);
 		}
+		return { actions, jumpActions };
+	}
+
+	/**
+	 * 读取浏览器中屏蔽的资源类型和 URL
+	 */
+	private static getResourceBlockConfig(ctx: IExecuteFunctions, itemIndex: number): ResourceBlockConfig {
+		const urls = (ctx.getNodeParameter('blockUrls', itemIndex, '') as string)
+			.split('\n').map((url) => url.trim()).filter(Boolean);
+		if (ctx.getNodeParameter('blockTrackers', itemIndex, false)) urls.push(...TRACKER_DOMAINS);
 
-		// 没有子字段配置时返回目标区域文本
-		return target.text().trim() || null;
+		const resourceTypes = ctx.getNodeParameter('blockResourceTypes', itemIndex, DEFAULT_BLOCKED_RESOURCE_TYPES) as
+			typeof DEFAULT_BLOCKED_RESOURCE_TYPES;
+		// 保存页面时默认加载图片、媒体和字体，使截图完整
+		const capturing = (ctx.getNodeParameter('capturePages', itemIndex, []) as PageCaptureType[]).length > 0;
+		const { blockResources } = ctx.getNodeParameter('capturePageOptions', itemIndex, {}) as PageCaptureOptions;
+		return {
+			resourceTypes: capturing && !blockResources
+				? resourceTypes.filter((type) => !CAPTURE_RESOURCE_TYPES.includes(type))
+				: resourceTypes,
+			urls,
+		};
 	}
 
 	/**
-	 * 查找跳转 URL
+	 * 读取无限滚动 / 加载更多配置
 	 */
-	private static findJumpUrl(
-		el: cheerio.Cheerio<AnyNode>,
-		clickSelector: string,
-		baseUrl: string,
-	): string | null {
-		const extractHref = (target: cheerio.Cheerio<AnyNode>): string | null => {
-			const href = target.attr('href')
-				|| target.attr('data-href')
-				|| target.attr('data-url');
-			if (href && !href.startsWith('#') && !href.startsWith('javascript:')) {
-				return href;
-			}
-			// 检查 onclick
-			const onclick = target.attr('onclick') || '';
-			const m = onclick.match(/(?:location\.href|window\.location)\s*=\s*['"]([^'"]+)['"]/);
-			if (m) return m[1];
-			const m2 = onclick.match(/window\.open\s*\(\s*['"]([^'"]+)['"]/);
-			if (m2) return m2[1];
-			return null;
+	private static getInfiniteScrollConfig(ctx: IExecuteFunctions, itemIndex: number): InfiniteScrollConfig | undefined {
+		const mode = ctx.getNodeParameter('infiniteScroll', itemIndex, 'none') as InfiniteScrollMode | 'none';
+		if (mode === 'none') return undefined;
+
+		const options = ctx.getNodeParameter('scrollOptions', itemIndex, {}) as Omit<InfiniteScrollConfig, 'mode'>;
+		return {
+			...options,
+			mode,
+			loadMoreSelector: mode === 'loadMore'
+				? ctx.getNodeParameter('loadMoreSelector', itemIndex, '') as string
+				: undefined,
 		};
+	}
 
-		// 1. clickSelector 指定的元素
-		if (clickSelector) {
-			const click = el.find(clickSelector).first();
-			if (click.length) {
-				const href = extractHref(click);
-				if (href) return SmartCrawler.resolveUrl(baseUrl, href);
-			}
+	/**
+	 * 读取网络响应捕获配置
+	 */
+	private static getResponseCaptureConfig(ctx: IExecuteFunctions, itemIndex: number): ResponseCaptureConfig | undefined {
+		const mode = ctx.getNodeParameter('captureResponses', itemIndex, 'none') as 'none' | 'list' | 'output';
+		if (mode === 'none') return undefined;
+
+		return {
+			patterns: (ctx.getNodeParameter('capturePatterns', itemIndex, '') as string)
+				.split('\n').map((p) => p.trim()).filter(Boolean),
+			patternType: ctx.getNodeParameter('capturePatternType', itemIndex, 'glob') as UrlPatternType,
+			useAsList: mode === 'list',
+		};
+	}
+
+	/**
+	 * 读取页面截图/PDF 配置，未选择保存内容时返回 undefined
+	 */
+	private static getPageCaptureConfig(ctx: IExecuteFunctions, itemIndex: number): PageCaptureConfig | undefined {
+		const types = ctx.getNodeParameter('capturePages', itemIndex, []) as PageCaptureType[];
+		if (types.length === 0) return undefined;
+
+		const options = { ...ctx.getNodeParameter('capturePageOptions', itemIndex, {}) as PageCaptureOptions };
+		delete options.blockResources; // 由 getResourceBlockConfig 读取
+		return {
+			...options,
+			selector: options.selector || undefined,
+			screenshot: types.includes('screenshot'),
+			pdf: types.includes('pdf'),
+		};
+	}
+
+	/**
+	 * 把截图/PDF 转为二进制数据，属性名为 screenshot、pdf，跳转页前加字段路径（如 detail_screenshot），重名时加序号
+	 */
+	private static async prepareCaptures(ctx: IExecuteFunctions, captures: PageCapture[]): Promise<IBinaryKeyData> {
+		const binary: IBinaryKeyData = {};
+		for (const capture of captures) {
+			const base = [...(capture.field?.split('.') ?? []), capture.type].join('_');
+			let key = base;
+			for (let n = 2; key in binary; n++) key = `${base}_${n}`;
+			binary[key] = await ctx.helpers.prepareBinaryData(capture.data, capture.fileName, capture.mimeType);
 		}
+		return binary;
+	}
 
-		// 2. 元素内部的 a 标签
-		const innerA = el.find('a[href]').first();
-		if (innerA.length) {
-			const href = extractHref(innerA);
-			if (href) return SmartCrawler.resolveUrl(baseUrl, href);
+	/**
+	 * 读取增量选项，需要时清空已输出记录
+	 */
+	private static getIncrementalConfig(ctx: IExecuteFunctions): { config: IncrementalConfig; state: SeenState } {
+		const options = ctx.getNodeParameter('incrementalOptions', 0, {}) as IncrementalOptions;
+		const state = ctx.getWorkflowStaticData('node') as SeenState;
+		// 只在开启后的首次执行时清空，保持开启不会每次都重新输出全部条目
+		if (!options.resetSeen) delete state.seenReset;
+		else if (!state.seenReset) {
+			delete state.seen;
+			state.seenReset = true;
 		}
 
-		// 3. 元素本身
-		const selfHref = extractHref(el);
-		if (selfHref) return SmartCrawler.resolveUrl(baseUrl, selfHref);
+		return {
+			config: {
+				keyFields: options.keyFields?.split(',').map((f) => f.trim()).filter(Boolean),
+				maxKeys: options.maxKeys,
+				ttl: (options.ttlHours ?? 0) * 3600 * 1000,
+			},
+			state,
+		};
+	}
+
+	/**
+	 * 读取变化检测选项，需要时清空上次结果
+	 */
+	private static getChangeDetectionConfig(ctx: IExecuteFunctions): {
+		config: ChangeDetectionConfig;
+		state: SnapshotState;
+	} {
+		const options = ctx.getNodeParameter('changeOptions', 0, {}) as ChangeOptions;
+		const state = ctx.getWorkflowStaticData('node') as SnapshotState;
+		// 只在开启后的首次执行时清空，保持开启不会每次都把全部条目作为新增输出
+		if (!options.resetSnapshot) delete state.snapshotReset;
+		else if (!state.snapshotReset) {
+			delete state.snapshots;
+			delete state.snapshotTimes;
+			state.snapshotReset = true;
+		}
 
-		// 4. 父元素 a 标签
-		const parentA = el.closest('a');
-		if (parentA.length) {
-			const href = extractHref(parentA);
-			if (href) return SmartCrawler.resolveUrl(baseUrl, href);
+		const parseList = (value?: string) => value?.split(',').map((f) => f.trim()).filter(Boolean) ?? [];
+		const keyFields = parseList(ctx.getNodeParameter('changeKeyFields', 0, '') as string);
+		if (!keyFields.length) {
+			throw new NodeOperationError(ctx.getNode(), '对比上次结果需要填写唯一键字段');
 		}
 
-		// 5. 向上查找容器内链接
-		let container = el.parent();
-		for (let i = 0; i < 3 && container.length; i++) {
-			const link = container.find('a[href]').first();
-			if (link.length) {
-				const href = extractHref(link);
-				if (href) return SmartCrawler.resolveUrl(baseUrl, href);
+		return {
+			config: {
+				keyFields,
+				compareFields: parseList(options.compareFields),
+				outputTypes: options.outputTypes,
+				maxItems: options.maxKeys,
+				ttl: (options.ttlHours ?? 0) * 3600 * 1000,
+			},
+			state,
+		};
+	}
+
+	/**
+	 * 读取重试策略
+	 */
+	private static getRetryPolicy(options: RequestOptions): RetryPolicy {
+		const parseList = (value?: string) =>
+			value?.split(',').map((v) => v.trim()).filter(Boolean);
+
+		return {
+			maxAttempts: options.retryMaxAttempts,
+			baseDelay: options.retryBaseDelay,
+			backoffFactor: options.retryBackoffFactor,
+			retryStatusCodes: parseList(options.retryStatusCodes)?.map(Number),
+			retryErrorCodes: parseList(options.retryErrorCodes),
+		};
+	}
+
+	/**
+	 * 读取列表页请求配置（请求方法、请求头、查询参数、请求体）
+	 */
+	private static getRequestConfig(ctx: IExecuteFunctions, itemIndex: number): RequestConfig {
+		const toRecord = (collection: NameValueCollection) => {
+			const record: Record<string, string> = {};
+			for (const { name, value } of collection.parameter ?? []) {
+				if (name) record[name] = String(value ?? '');
 			}
-			container = container.parent();
+			return record;
+		};
+
+		const method = ctx.getNodeParameter('requestMethod', itemIndex, 'GET') as HttpMethod;
+		const request: RequestConfig = {
+			method,
+			headers: toRecord(ctx.getNodeParameter('headers', itemIndex, {}) as NameValueCollection),
+			query: toRecord(ctx.getNodeParameter('queryParameters', itemIndex, {}) as NameValueCollection),
+		};
+		if (method === 'GET') return request;
+
+		const bodyType = ctx.getNodeParameter('bodyType', itemIndex, 'none') as 'none' | 'form' | 'json';
+		if (bodyType === 'form') {
+			request.bodyType = 'form';
+			request.body = toRecord(ctx.getNodeParameter('bodyParameters', itemIndex, {}) as NameValueCollection);
+		} else if (bodyType === 'json') {
+			request.bodyType = 'json';
+			const jsonBody = ctx.getNodeParameter('jsonBody', itemIndex, '') as string | IDataObject;
+			request.body = typeof jsonBody === 'string' ? jsonBody : JSON.stringify(jsonBody);
 		}
+		return request;
+	}
 
-		return null;
+	/**
+	 * 跳转字段的请求头（JSON 对象）
+	 */
+	private static parseJumpHeaders(value: FieldData['jumpHeaders']): Record<string, string> {
+		const parsed = typeof value === 'string' ? JSON.parse(value || '{}') : value;
+		const headers: Record<string, string> = {};
+		if (parsed && typeof parsed === 'object') {
+			for (const [key, v] of Object.entries(parsed)) {
+				headers[key] = String(v);
+			}
+		}
+		return headers;
 	}
 
 	/**
@@ -538,7 +2224,132 @@ export class SmartCrawler implements INodeType {
 		return [];
 	}
 
-	private static resolveUrl(base: string, rel: string): string {
-		try { return new URL(rel, base).href; } catch { return rel; }
+	/**
+	 * 把节点的字段配置转换为 CrawlerEngine 的 FieldConfig
+	 */
+	private static toFieldConfig(field: FieldData): FieldConfig {
+		if (field.fieldType !== 'jump') {
+			return {
+				name: field.name,
+				selector: field.selector,
+				selectorType: SmartCrawler.toSelectorType(field.selectorType),
+				type: field.type || 'text',
+				attribute: field.attribute,
+				...SmartCrawler.toMultipleOptions(field),
+				transforms: SmartCrawler.toTransforms(field.transforms),
+			};
+		}
+
+		return {
+			name: field.name,
+			selector: field.selector,
+			selectorType: SmartCrawler.toSelectorType(field.selectorType),
+			type: 'text',
+			...SmartCrawler.toMultipleOptions(field),
+			transforms: SmartCrawler.toTransforms(field.transforms),
+			isJump: true,
+			jumpConfig: {
+				clickSelector: field.clickSelector || '',
+				targetSelector: field.targetSelector || undefined,
+				urlTemplate: field.urlTemplate || undefined,
+				responseType: field.responseType || undefined,
+				jsonSource: field.jsonSource || undefined,
+				inheritHeaders: field.inheritHeaders ?? true,
+				structuredData: field.structuredData || undefined,
+				structuredType: field.structuredType || undefined,
+				headers: SmartCrawler.parseJumpHeaders(field.jumpHeaders),
+				fields: SmartCrawler.parseJumpSubFields(field.jumpFields).map((sf) => ({
+					name: sf.name,
+					selector: sf.selector,
+					selectorType: SmartCrawler.toSelectorType(sf.selectorType),
+					type: sf.type || 'text',
+					attribute: sf.attribute,
+					...SmartCrawler.toMultipleOptions(sf),
+					transforms: SmartCrawler.toTransforms(sf.transforms),
+				})),
+			},
+		};
+	}
+
+	/**
+	 * 字段的选择器类型，与列表选择器相同时为 undefined
+	 */
+	private static toSelectorType(type?: FieldSelectorType): SelectorType | undefined {
+		return type === 'css' || type === 'xpath' ? type : undefined;
+	}
+
+	/**
+	 * 后处理列表，未配置时为 undefined
+	 */
+	private static toTransforms(transforms?: TransformsData): FieldTransform[] | undefined {
+		const list = transforms?.transform;
+		if (!list) return undefined;
+		return Array.isArray(list) ? list : [list as FieldTransform];
+	}
+
+	/**
+	 * 多值提取选项，未开启时不输出
+	 */
+	private static toMultipleOptions(field: MultipleOptions): MultipleOptions {
+		if (!field.multiple) return {};
+		return {
+			multiple: true,
+			separator: field.separator || undefined,
+			maxCount: field.maxCount || undefined,
+		};
+	}
+
+	/**
+	 * 转换认证凭证，其他请求头不是合法的 JSON 时报错
+	 */
+	private static getAuth(
+		ctx: IExecuteFunctions,
+		itemIndex: number,
+		credentials: ICredentialDataDecryptedObject | undefined,
+		cookie: string,
+	): CrawlerAuth {
+		try {
+			return credentialsToAuth(credentials, cookie);
+		} catch (error) {
+			throw new NodeOperationError(ctx.getNode(), `认证凭证的其他请求头不是合法的 JSON: ${(error as Error).message}`, {
+				itemIndex,
+			});
+		}
+	}
+
+	/**
+	 * 读取高级字段配置（CrawlerEngine 的 FieldConfig 数组，支持多层跳转）
+	 */
+	private static getAdvancedFields(ctx: IExecuteFunctions, itemIndex: number): FieldConfig[] {
+		const value = ctx.getNodeParameter('advancedFields', itemIndex, '[]') as string | FieldConfig[];
+		let fields: unknown;
+		try {
+			fields = typeof value === 'string' ? JSON.parse(value || '[]') : value;
+		} catch (error) {
+			throw new NodeOperationError(ctx.getNode(), `高级字段配置不是合法的 JSON: ${(error as Error).message}`, {
+				itemIndex,
+			});
+		}
+
+		const valid = Array.isArray(fields) && fields.every(
+			(f) => f && typeof f === 'object' && typeof f.name === 'string' && typeof f.selector === 'string',
+		);
+		if (!valid) {
+			throw new NodeOperationError(ctx.getNode(), '高级字段配置必须是包含 name 和 selector 的字段数组', {
+				itemIndex,
+			});
+		}
+		const withDefaults = (f: FieldConfig): FieldConfig => ({
+			...f,
+			type: f.type || 'text',
+			...(f.jumpConfig && {
+				jumpConfig: {
+					...f.jumpConfig,
+					clickSelector: f.jumpConfig.clickSelector || '',
+					fields: f.jumpConfig.fields?.map(withDefaults),
+				},
+			}),
+		});
+		return (fields as FieldConfig[]).map(withDefaults);
 	}
 }
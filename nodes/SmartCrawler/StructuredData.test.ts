@@ -0,0 +1,78 @@
+import * as cheerio from 'cheerio';
+
+import { extractStructuredData } from './StructuredData';
+
+const PAGE_URL = 'https://shop.example.com/products/42?from=list';
+
+describe('StructuredData', () => {
+	it('应提取标题、描述、规范链接和 OpenGraph 属性', () => {
+		const $ = cheerio.load(`<html><head>
+			<title> 机械键盘 - 示例商城 </title>
+			<meta name="description" content="87 键热插拔机械键盘">
+			<link rel="canonical" href="/products/42">
+			<meta property="og:title" content="机械键盘">
+			<meta property="og:image" content="https://img.example.com/1.jpg">
+			<meta property="og:image" content="https://img.example.com/2.jpg">
+		</head><body></body></html>`);
+
+		const data = extractStructuredData($, PAGE_URL);
+
+		expect(data).toEqual({
+			title: '机械键盘 - 示例商城',
+			description: '87 键热插拔机械键盘',
+			canonical: 'https://shop.example.com/products/42',
+			openGraph: {
+				title: '机械键盘',
+				image: ['https://img.example.com/1.jpg', 'https://img.example.com/2.jpg'],
+			},
+			schema: {},
+		});
+	});
+
+	it('JSON-LD 应展开 @graph 并按 @type 分组，格式错误的脚本跳过', () => {
+		const $ = cheerio.load(`<html><head>
+			<script type="application/ld+json">{
+				"@context": "https://schema.org",
+				"@graph": [
+					{ "@type": "Product", "name": "机械键盘", "offers": { "@type": "Offer", "price": "399" } },
+					{ "@type": ["WebPage", "https://schema.org/ItemPage"], "name": "商品页" }
+				]
+			}</script>
+			<script type="application/ld+json">{ 不是 JSON }</script>
+		</head></html>`);
+
+		const { schema } = extractStructuredData($, PAGE_URL);
+
+		expect(schema.Product).toEqual([
+			{ '@type': 'Product', name: '机械键盘', offers: { '@type': 'Offer', price: '399' } },
+		]);
+		expect(schema.WebPage).toEqual(schema.ItemPage);
+		expect(Object.keys(schema)).toEqual(['Product', 'WebPage', 'ItemPage']);
+	});
+
+	it('微数据应解析嵌套对象、链接和 meta 属性值', () => {
+		const $ = cheerio.load(`<div itemscope itemtype="https://schema.org/Event">
+			<h1 itemprop="name">发布会</h1>
+			<time itemprop="startDate" datetime="2024-05-01T19:00">5月1日</time>
+			<a itemprop="url" href="/events/7">详情</a>
+			<div itemprop="location" itemscope itemtype="https://schema.org/Place">
+				<span itemprop="name">会展中心</span>
+				<meta itemprop="telephone" content="010-1234">
+			</div>
+			<span itemprop="keywords">科技</span><span itemprop="keywords">数码</span>
+		</div>`);
+
+		const { schema } = extractStructuredData($, PAGE_URL);
+
+		expect(schema).toEqual({
+			Event: [{
+				'@type': 'Event',
+				name: '发布会',
+				startDate: '2024-05-01T19:00',
+				url: 'https://shop.example.com/events/7',
+				location: { '@type': 'Place', name: '会展中心', telephone: '010-1234' },
+				keywords: ['科技', '数码'],
+			}],
+		});
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * StructuredData - 页面结构化数据（JSON-LD、微数据、OpenGraph、标题/描述/规范链接）
+ */
+import type { AnyNode } from 'domhandler';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { resolveUrl } from './Url';
+
+export interface StructuredData {
+	title: string | null;
+	description: string | null;  // meta description
+	canonical: string | null;    // 规范链接（绝对 URL）
+	openGraph: Record<string, string | string[]>; // og:* 属性，键去掉 og: 前缀，重复的属性为数组
+	schema: Record<string, SchemaObject[]>; // JSON-LD 和微数据中的对象，按 @type 分组
+}
+
+export type SchemaObject = Record<string, unknown>;
+
+/**
+ * 同名属性出现多次时合并为数组
+ */
+function addValue(target: Record<string, unknown>, key: string, value: unknown): void {
+	const existing = target[key];
+	if (existing === undefined) target[key] = value;
+	else if (Array.isArray(existing)) existing.push(value);
+	else target[key] = [existing, value];
+}
+
+/**
+ * @type 的短名称：https://schema.org/Product -> Product
+ */
+function getTypeNames(type: unknown): string[] {
+	const types = Array.isArray(type) ? type : [type];
+	return types
+		.filter((t): t is string => typeof t === 'string' && t !== '')
+		.map((t) => t.replace(/^https?:\/\/schema\.org\//, ''));
+}
+
+/**
+ * JSON-LD 中的顶层对象（展开数组和 @graph），无法解析的脚本跳过
+ */
+function parseJsonLd($: CheerioAPI): SchemaObject[] {
+	const objects: SchemaObject[] = [];
+	const collect = (value: unknown) => {
+		if (Array.isArray(value)) {
+			value.forEach(collect);
+		} else if (value && typeof value === 'object') {
+			const obj = value as SchemaObject;
+			if (Array.isArray(obj['@graph'])) obj['@graph'].forEach(collect);
+			else objects.push(obj);
+		}
+	};
+
+	$('script[type="application/ld+json"]').each((_, el) => {
+		try {
+			collect(JSON.parse($(el).text()));
+		} catch {
+			// 忽略格式错误的 JSON-LD
+		}
+	});
+	return objects;
+}
+
+/**
+ * 微数据属性值，见 HTML 标准 itemprop 的取值规则
+ */
+function getMicrodataValue(el: Cheerio<AnyNode>, baseUrl: string): string {
+	const tag = (el.prop('tagName') ?? '').toLowerCase();
+	let value: string | undefined;
+	if (tag === 'meta') value = el.attr('content');
+	else if (['a', 'area', 'link'].includes(tag)) value = el.attr('href') && resolveUrl(baseUrl, el.attr('href')!);
+	else if (['audio', 'embed', 'iframe', 'img', 'source', 'track', 'video'].includes(tag)) {
+		value = el.attr('src') && resolveUrl(baseUrl, el.attr('src')!);
+	} else if (tag === 'object') value = el.attr('data');
+	else if (tag === 'data' || tag === 'meter') value = el.attr('value');
+	else if (tag === 'time') value = el.attr('datetime');
+	return (value ?? el.attr('content') ?? el.text()).trim();
+}
+
+/**
+ * 把 itemscope 元素解析为对象，嵌套的 itemscope 解析为子对象
+ */
+function parseMicrodataItem($: CheerioAPI, scope: Cheerio<AnyNode>, baseUrl: string): SchemaObject {
+	const item: SchemaObject = {};
+	const types = getTypeNames(scope.attr('itemtype')?.split(/\s+/));
+	if (types.length) item['@type'] = types.length === 1 ? types[0] : types;
+	const id = scope.attr('itemid');
+	if (id) item['@id'] = id;
+
+	scope.find('[itemprop]').each((_, node) => {
+		const prop = $(node);
+		// 只处理直接属于该 itemscope 的属性
+		if (prop.parent().closest('[itemscope]')[0] !== scope[0]) return;
+		const value = prop.is('[itemscope]')
+			? parseMicrodataItem($, prop, baseUrl)
+			: getMicrodataValue(prop, baseUrl);
+		for (const name of (prop.attr('itemprop') ?? '').split(/\s+/).filter(Boolean)) {
+			addValue(item, name, value);
+		}
+	});
+	return item;
+}
+
+function parseMicrodata($: CheerioAPI, baseUrl: string): SchemaObject[] {
+	return $('[itemscope]')
+		.filter((_, el) => !$(el).is('[itemprop]'))
+		.toArray()
+		.map((el) => parseMicrodataItem($, $(el), baseUrl));
+}
+
+/**
+ * 提取页面的结构化数据
+ * @param baseUrl 页面 URL，用于把链接转为绝对 URL
+ */
+export function extractStructuredData($: CheerioAPI, baseUrl: string): StructuredData {
+	const openGraph: Record<string, string | string[]> = {};
+	$('meta[property^="og:"]').each((_, el) => {
+		const content = $(el).attr('content');
+		if (content !== undefined) addValue(openGraph, $(el).attr('property')!.slice(3), content);
+	});
+
+	const schema: Record<string, SchemaObject[]> = {};
+	for (const obj of [...parseJsonLd($), ...parseMicrodata($, baseUrl)]) {
+		const types = getTypeNames(obj['@type']);
+		for (const type of types.length ? types : ['Thing']) {
+			(schema[type] ??= []).push(obj);
+		}
+	}
+
+	const canonical = $('link[rel="canonical"]').attr('href');
+	return {
+		title: $('title').first().text().trim() || null,
+		description: $('meta[name="description"]').attr('content')?.trim() || null,
+		canonical: canonical ? resolveUrl(baseUrl, canonical) : null,
+		openGraph,
+		schema,
+	};
+}
@@ -0,0 +1,48 @@
+import { applyTransforms } from './Transforms';
+
+const BASE_URL = 'https://example.com/list/page';
+
+describe('Transforms', () => {
+	it('正则提取默认输出第一个捕获组', () => {
+		expect(applyTransforms('商品编号：A-1024', [{ type: 'regex', pattern: 'A-(\\d+)' }], BASE_URL)).toBe('1024');
+		expect(applyTransforms('商品编号：A-1024', [{ type: 'regex', pattern: 'A-\\d+' }], BASE_URL)).toBe('A-1024');
+		expect(applyTransforms('无编号', [{ type: 'regex', pattern: 'A-(\\d+)' }], BASE_URL)).toBeNull();
+	});
+
+	it('应按顺序执行替换、空白合并和数字解析', () => {
+		const value = applyTransforms(
+			'  价格：\n ¥ 1,234.50 元 ',
+			[
+				{ type: 'replace', pattern: '价格：', replacement: '' },
+				{ type: 'collapseWhitespace' },
+				{ type: 'number' },
+			],
+			BASE_URL,
+		);
+		expect(value).toBe(1234.5);
+		expect(applyTransforms('-3.9 ℃', [{ type: 'integer' }], BASE_URL)).toBe(-3);
+	});
+
+	it('布尔值解析失败时应抛出错误', () => {
+		expect(applyTransforms('是', [{ type: 'boolean' }], BASE_URL)).toBe(true);
+		expect(applyTransforms('OFF', [{ type: 'boolean' }], BASE_URL)).toBe(false);
+		expect(() => applyTransforms('也许', [{ type: 'boolean' }], BASE_URL)).toThrow('无法解析为布尔值');
+	});
+
+	it('日期应按格式和时区解析为 ISO 字符串', () => {
+		expect(
+			applyTransforms('2024-03-05 08:30', [
+				{ type: 'date', format: 'yyyy-MM-dd HH:mm', timezone: 'Asia/Shanghai' },
+			], BASE_URL),
+		).toBe('2024-03-05T08:30:00.000+08:00');
+		expect(applyTransforms('2024-03-05T08:30:00Z', [{ type: 'date', timezone: 'Asia/Shanghai' }], BASE_URL))
+			.toBe('2024-03-05T08:30:00.000Z');
+		expect(() => applyTransforms('昨天', [{ type: 'date' }], BASE_URL)).toThrow('无法解析日期');
+	});
+
+	it('应把相对链接转为绝对 URL，null 时使用默认值，多值逐个转换', () => {
+		expect(applyTransforms('../detail/1', [{ type: 'absoluteUrl' }], BASE_URL)).toBe('https://example.com/detail/1');
+		expect(applyTransforms(null, [{ type: 'number' }, { type: 'default', value: '0' }], BASE_URL)).toBe('0');
+		expect(applyTransforms(['1', '2'], [{ type: 'integer' }], BASE_URL)).toEqual([1, 2]);
+	});
+});
@@ -0,0 +1,108 @@
+/**
+ * Transforms - 字段值后处理（正则、空白、类型转换、日期、URL、默认值）
+ */
+import { DateTime } from 'luxon';
+import { resolveUrl } from './Url';
+
+export type TransformType =
+	| 'regex'              // 正则提取
+	| 'replace'            // 正则替换（替换所有匹配）
+	| 'collapseWhitespace' // 连续空白合并为一个空格并去除首尾空白
+	| 'number'
+	| 'integer'
+	| 'boolean'
+	| 'date'               // 解析为 ISO 8601 字符串
+	| 'absoluteUrl'        // 相对页面 URL 转为绝对 URL
+	| 'default';           // 结果为 null 时使用默认值
+
+export interface FieldTransform {
+	type: TransformType;
+	pattern?: string;     // regex / replace 的正则表达式
+	flags?: string;       // 正则标志，如 i
+	group?: number;       // regex 的捕获组，默认 1（没有捕获组时为整个匹配）
+	replacement?: string; // replace 的替换内容，支持 $1
+	format?: string;      // date 的格式（Luxon 格式，如 yyyy-MM-dd HH:mm），为空则自动识别
+	timezone?: string;    // date 的时区（如 Asia/Shanghai、UTC+8），字符串不含时区时使用
+	value?: string;       // default 的默认值
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'on', '是'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off', '否'];
+
+function parseDate(value: string, transform: FieldTransform): string {
+	const zone = transform.timezone || 'local';
+	let date: DateTime;
+	if (transform.format) {
+		date = DateTime.fromFormat(value, transform.format, { zone, setZone: true });
+	} else {
+		date = DateTime.fromISO(value, { zone, setZone: true });
+		if (!date.isValid) date = DateTime.fromRFC2822(value, { zone, setZone: true });
+		if (!date.isValid) date = DateTime.fromSQL(value, { zone, setZone: true });
+	}
+	if (!date.isValid) {
+		throw new Error(`无法解析日期 "${value}"${transform.format ? `（格式 ${transform.format}）` : ''}`);
+	}
+	return date.toISO() as string;
+}
+
+/**
+ * 对单个字符串值执行一个转换
+ */
+function applyTransform(value: unknown, transform: FieldTransform, baseUrl: string): unknown {
+	if (transform.type === 'default') {
+		return value === null || value === undefined || value === '' ? transform.value ?? null : value;
+	}
+	if (value === null || value === undefined) return null;
+	// 跳转字段的子对象不做转换
+	if (typeof value === 'object') return value;
+	const str = String(value);
+
+	switch (transform.type) {
+		case 'regex': {
+			const match = new RegExp(transform.pattern ?? '', transform.flags).exec(str);
+			if (!match) return null;
+			const group = transform.group ?? (match.length > 1 ? 1 : 0);
+			return match[group] ?? null;
+		}
+		case 'replace': {
+			const flags = transform.flags?.includes('g') ? transform.flags : `${transform.flags ?? ''}g`;
+			return str.replace(new RegExp(transform.pattern ?? '', flags), transform.replacement ?? '');
+		}
+		case 'collapseWhitespace':
+			return str.replace(/\s+/g, ' ').trim();
+		case 'number':
+		case 'integer': {
+			// 去掉货币符号和千分位，如 "¥1,234.50" -> 1234.5
+			const match = str.match(/-?\d[\d,]*(\.\d+)?/);
+			if (!match) throw new Error(`无法解析为数字: "${str}"`);
+			const num = Number(match[0].replace(/,/g, ''));
+			return transform.type === 'integer' ? Math.trunc(num) : num;
+		}
+		case 'boolean': {
+			const normalized = str.trim().toLowerCase();
+			if (TRUE_VALUES.includes(normalized)) return true;
+			if (FALSE_VALUES.includes(normalized)) return false;
+			throw new Error(`无法解析为布尔值: "${str}"`);
+		}
+		case 'date':
+			return parseDate(str.trim(), transform);
+		case 'absoluteUrl':
+			return resolveUrl(baseUrl, str.trim());
+		default:
+			throw new Error(`未知的转换类型: ${transform.type as string}`);
+	}
+}
+
+/**
+ * 按顺序执行字段的转换列表，多值字段逐个元素转换
+ * @param baseUrl 字段所在页面的 URL，用于 absoluteUrl
+ */
+export function applyTransforms(value: unknown, transforms: FieldTransform[], baseUrl: string): unknown {
+	let result = value;
+	for (const transform of transforms) {
+		result = Array.isArray(result) && transform.type !== 'default'
+			? result.map((v) => applyTransform(v, transform, baseUrl))
+			: applyTransform(result, transform, baseUrl);
+	}
+	return result;
+}
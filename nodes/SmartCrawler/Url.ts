@@ -0,0 +1,26 @@
+/**
+ * Url - 链接解析和查询参数
+ */
+
+/**
+ * 把相对链接解析为绝对 URL，无法解析时原样返回
+ */
+export function resolveUrl(base: string, rel: string): string {
+	try { return new URL(rel, base).href; } catch { return rel; }
+}
+
+/**
+ * 设置 URL 的查询参数（覆盖同名参数），没有参数或 URL 无效时原样返回
+ */
+export function withQuery(url: string, params?: Record<string, string | number>): string {
+	if (!params || Object.keys(params).length === 0) return url;
+	try {
+		const u = new URL(url);
+		for (const [key, value] of Object.entries(params)) {
+			u.searchParams.set(key, String(value));
+		}
+		return u.href;
+	} catch {
+		return url;
+	}
+}